@@ -1,14 +1,65 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { SignalMessage, Stroke, Point } from './types';
+import React, { useState, useEffect, useRef, useCallback, useReducer, useMemo } from 'react';
+import { SignalMessage, SignalMessageType, Stroke, Point, PeerRole, Op, DrawingTool, RoundTally, CardFate, QuickSignal } from './types';
 import { DrawingBoard } from './components/DrawingBoard';
+import { CardTracker } from './components/CardTracker';
+import { RankBadge } from './components/RankBadge';
+import { HandwritingTrainer } from './components/HandwritingTrainer';
+import { DecoyCalculator } from './components/DecoyCalculator';
+import { PanicSettingsPanel } from './components/PanicSettingsPanel';
+import { QrCode } from './components/QrCode';
+import { Scoreboard } from './components/Scoreboard';
+import { PairingCodeInput } from './components/PairingCodeInput';
+import { QuickSignalPalette } from './components/QuickSignalPalette';
+import { QuickSignalSettings } from './components/QuickSignalSettings';
+import { SignalLog } from './components/SignalLog';
+import { SignalBanner } from './components/SignalBanner';
+import { HapticPulse } from './components/HapticPulse';
+import { HapticSettingsPanel } from './components/HapticSettingsPanel';
+import { HapticPractice } from './components/HapticPractice';
+import { BrushPalette } from './components/BrushPalette';
+import { RecordingsPanel } from './components/RecordingsPanel';
+import { BoardFilePanel } from './components/BoardFilePanel';
+import { BINARY_FRAMES_VERSION, FRAME_SEALED, createHello, checkCompatibility, encodeFrame, encodeMessage, parseFrame, parseMessage } from './services/protocol';
+import { SessionKeys, SpakeExchange, openBox, openBytes, sealBox, sealBytes, startSpake2 } from './services/crypto';
+import { ConnectionEvent, INITIAL_CONNECTION, connectionReducer, describePhase, HEARTBEAT_INTERVAL_MS, HEARTBEAT_TIMEOUT_MS, STALL_GRACE_MS, ICE_RESTART_TIMEOUT_MS, RESIGNAL_TIMEOUT_MS } from './services/connection';
+import { OpLog, Unstamped, appendLocal, applySnapshot, clearSavedLog, createId, createLog, deriveBoard, freshOps, integrate, joinSnapshot, loadLog, missingFor, saveLog, viewCardMarks, viewStrokes } from './services/oplog';
+import { SignalTopic, SignalingTransport, SignalingMode, SignalingSettings, connectWithFallback, endpointsFor, loadSignalingSettings, saveSignalingSettings } from './services/signaling';
+import { prepareStrokePoints } from './services/strokeCodec';
+import { toBoardUnits } from './services/geometry';
+import { FADING_TTL_OPTIONS, InkSettings, createClockEstimator, expiresAt, loadInkSettings, saveInkSettings } from './services/fadingInk';
+import { PanicSettings, loadHidden, loadPanicSettings, saveHidden, savePanicSettings, watchShake, watchTwoFingerHold } from './services/panic';
+import { BUILTIN_TEMPLATES, Template, loadUserTemplates, recognize, saveUserTemplates } from './services/recognizer';
+import { decodeDescription, encodeDescription } from './services/sdpCodec';
+import { RoomClaim, claimWins, createClaim, generateRoomCode, isRoomCode, normalizeRoomCode, parseClaim } from './services/roomCode';
+import { SignalLogEntry, appendSignalLog, clearSignalLog, loadQuickSignals, loadSignalLog, saveQuickSignals } from './services/quickSignals';
+import { HapticSettings, cardCode, loadHapticSettings, rankCode, saveHapticSettings, toPattern, vibrate } from './services/haptics';
+import { BrushSettings, loadBrush, saveBrush, styleFor } from './services/brush';
+import { exportableStrokes } from './services/boardFile';
+import { RecordedMessage, createRecording, isSignalMessage, loadCurrentRecording, loadRecordingEnabled, recordEvent, saveCurrentRecording, saveRecordingEnabled } from './services/recorder';
 import LZString from 'lz-string';
-import { Trash2, ShieldCheck, ArrowLeft, Copy, Check, Bell, LogOut, Link2, Download, Upload, Lock, Wifi, WifiOff, RefreshCw } from 'lucide-react';
+import { Trash2, ShieldCheck, ArrowLeft, Copy, Check, Bell, LogOut, Link2, Download, Upload, Lock, Wifi, WifiOff, RefreshCw, PenLine, LayoutGrid, AlertTriangle, X, Undo2, Redo2, Eraser, GraduationCap, Timer, TimerOff, Hand, EyeOff, Settings2, Trophy, Zap, Vibrate, Highlighter, Stamp, Disc, FileImage } from 'lucide-react';
 
-// MQTT Client from global script
-declare const mqtt: any;
+// How long to wait for the partner's HELLO before warning about an old build
+const HELLO_TIMEOUT_MS = 5000;
 
-// Public Broker for signaling
-const BROKER_URL = 'wss://broker.emqx.io:8084/mqtt';
+// How often the ICE-restart offer is re-sent while the partner may not be listening yet
+const ICE_REOFFER_MS = 2000;
+// Upper bound on waiting for ICE gathering when a complete description is needed
+const ICE_GATHER_TIMEOUT_MS = 3000;
+
+// A partner stroke in progress that stops updating is dropped after this long
+const LIVE_STROKE_TIMEOUT_MS = 5000;
+
+// Strokes drawn less than this apart are read as one glyph, e.g. the "1" and "0" of a 10
+const RECOGNIZE_DELAY_MS = 900;
+const RANK_BADGE_MS = 4000;
+const SIGNAL_BANNER_MS = 3000;
+
+// Background flash for a plain ping; quick signals flash in their own colour
+const PING_FLASH_COLOR = '#1e3a8a';
+const CARD_SIGNAL_COLOR = '#eab308';
+
+const partnerOf = (role: Role): Role => (role === 'HOST' ? 'JOINER' : 'HOST');
 
 const RTC_CONFIG = {
   iceServers: [
@@ -17,16 +68,42 @@ const RTC_CONFIG = {
 };
 
 type ViewState = 'HOME' | 'HOST_LOBBY' | 'JOIN_LOBBY' | 'MANUAL_HOST' | 'MANUAL_JOIN' | 'GAME';
-type Role = 'HOST' | 'JOINER';
+type Role = PeerRole;
 type Mode = 'CLOUD' | 'MANUAL';
+type GameTab = 'BOARD' | 'CARDS' | 'SCORE';
+
+// One of my own board edits, as remembered by undo/redo. Only strokes I drew
+// or erased ever get here, so undo never touches the partner's drawing.
+interface BoardEdit {
+  kind: 'DRAW' | 'ERASE';
+  strokeId: string;
+}
+
+// One of my own scorekeeper changes: the round as it was before (null if it
+// did not exist), so undo can put it back
+interface ScoreEdit {
+  roundId: string;
+  before: RoundTally | null;
+}
+
+const SIGNALING_OPTIONS: { mode: SignalingMode; label: string }[] = [
+  { mode: 'PUBLIC', label: 'Internet' },
+  { mode: 'RELAY', label: 'LAN Relay' },
+  { mode: 'SAME_DEVICE', label: 'Same Device' },
+];
 
 interface SessionData {
   mode: Mode;
   role: Role;
-  code: string; // The short code or manual offer
+  code: string; // The room code or manual offer
   timestamp: number;
+  id: string; // This device in the session: names our room claim and our answers
+  partnerId?: string; // Host only: the joiner it paired with. Nobody else gets in after that
 }
 
+// How long a host listens for an existing retained claim before taking the room
+const CLAIM_CHECK_MS = 1500;
+
 export default function App() {
   // --- State ---
   const [view, setView] = useState<ViewState>('HOME');
@@ -36,6 +113,10 @@ export default function App() {
   // Signaling State
   const [shortCode, setShortCode] = useState<string>('');
   const [inputCode, setInputCode] = useState<string>('');
+  const [signalingSettings, setSignalingSettings] = useState<SignalingSettings>(loadSignalingSettings);
+  const [signalingLabel, setSignalingLabel] = useState<string>('');
+  const [connectElapsed, setConnectElapsed] = useState<number>(0);
+  const [lastConnectMs, setLastConnectMs] = useState<number | null>(null);
   
   // Manual State
   const [localOffer, setLocalOffer] = useState<string>('');
@@ -43,30 +124,179 @@ export default function App() {
   const [copied, setCopied] = useState(false);
 
   // Game State
-  const [flash, setFlash] = useState(false);
+  const [flashColor, setFlashColor] = useState<string | null>(null);
   const [wakeLockActive, setWakeLockActive] = useState(false);
-  const [strokes, setStrokes] = useState<Stroke[]>([]);
+  // Board and tracker are both derived from the shared operation log
+  const [opLog, setOpLog] = useState<OpLog>(() => createLog('HOST'));
   const [isReconnecting, setIsReconnecting] = useState(false);
+  const [protocolWarning, setProtocolWarning] = useState<string>('');
+  const [e2eActive, setE2eActive] = useState(false);
+  const [connection, dispatchConnection] = useReducer(connectionReducer, INITIAL_CONNECTION);
+
+  // Card Tracker State
+  const [shakingCardId, setShakingCardId] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<GameTab>('BOARD'); // On wider screens only picks between cards and score
+  const [scoreUndoStack, setScoreUndoStack] = useState<ScoreEdit[]>([]);
+
+  // Drawing Board State
+  const [tool, setTool] = useState<DrawingTool>('PEN');
+  const [brush, setBrush] = useState<BrushSettings>(loadBrush);
+  const [showBrushPalette, setShowBrushPalette] = useState(false);
+  const [showBoardFile, setShowBoardFile] = useState(false);
+  const [undoStack, setUndoStack] = useState<BoardEdit[]>([]);
+  const [redoStack, setRedoStack] = useState<BoardEdit[]>([]);
+  const [liveStrokes, setLiveStrokes] = useState<Record<string, Stroke>>({}); // Partner's, keyed by id
+  const [inkSettings, setInkSettings] = useState<InkSettings>(loadInkSettings);
+  const [clockOffset, setClockOffset] = useState(0); // Partner clock minus ours, ms
+
+  // Panic State
+  const [panicHidden, setPanicHidden] = useState<boolean>(loadHidden);
+  const [panicSettings, setPanicSettings] = useState<PanicSettings>(loadPanicSettings);
+  const [showPanicSettings, setShowPanicSettings] = useState(false);
+
+  // Handwriting Recognition State
+  const [userTemplates, setUserTemplates] = useState<Template[]>(loadUserTemplates);
+  const [showTrainer, setShowTrainer] = useState(false);
+  const [rankBadge, setRankBadge] = useState<{ rank: number; fromPartner: boolean } | null>(null);
+
+  // Quick Signal State
+  const [quickSignals, setQuickSignals] = useState<QuickSignal[]>(loadQuickSignals);
+  const [signalLog, setSignalLog] = useState<SignalLogEntry[]>(loadSignalLog);
+  const [signalBanner, setSignalBanner] = useState<QuickSignal | null>(null);
+  const [showPalette, setShowPalette] = useState(true);
+  const [showSignalSettings, setShowSignalSettings] = useState(false);
+  const [showSignalLog, setShowSignalLog] = useState(false);
+
+  // Haptic Code State
+  const [hapticSettings, setHapticSettings] = useState<HapticSettings>(loadHapticSettings);
+  const [showHapticSettings, setShowHapticSettings] = useState(false);
+  const [showHapticPractice, setShowHapticPractice] = useState(false);
+  const [pulse, setPulse] = useState<{ pattern: number[]; code?: string; at: number } | null>(null); // Stands in for vibration
+
+  // Recorder
+  const [recordingEnabled, setRecordingEnabled] = useState<boolean>(loadRecordingEnabled);
+  const [recordingId, setRecordingId] = useState<string | null>(loadCurrentRecording);
+  const [showRecordings, setShowRecordings] = useState(false);
 
   // --- Refs ---
   const pcRef = useRef<RTCPeerConnection | null>(null);
   const dataChannelRef = useRef<RTCDataChannel | null>(null);
-  const mqttClientRef = useRef<any>(null);
+  const signalingRef = useRef<SignalingTransport | null>(null);
+  const connectStartRef = useRef<number>(0); // performance.now() when the current attempt began
   const reconnectTimeoutRef = useRef<any>(null);
+  const shakeTimeoutRef = useRef<any>(null);
+  // My stroke being streamed: its id and how many points the partner has
+  const outgoingStrokeRef = useRef<{ id: string; sent: number } | null>(null);
+  const liveStrokeTimersRef = useRef<Record<string, any>>({});
+  // My strokes since the last recognition, read together as one glyph
+  const glyphStrokeIdsRef = useRef<string[]>([]);
+  const recognizeTimeoutRef = useRef<any>(null);
+  const rankBadgeTimeoutRef = useRef<any>(null);
+  const signalBannerTimeoutRef = useRef<any>(null);
+  const flashTimeoutRef = useRef<any>(null);
+  const hapticSettingsRef = useRef<HapticSettings>(hapticSettings); // Read by the channel handlers, set up once per connection
+  const recordingIdRef = useRef<string | null>(recordingId); // Likewise
+  const clockRef = useRef(createClockEstimator());
+  const helloTimeoutRef = useRef<any>(null);
+  // Application-layer key for the data channel, agreed over SPAKE2 in cloud mode.
+  // Manual mode has no shared secret, so it relies on DTLS alone.
+  const dataKeyRef = useRef<CryptoKey | null>(null);
+  const sessionKeysRef = useRef<SessionKeys | null>(null); // Kept for ICE restarts
+  const lastPeerMessageRef = useRef<number>(0); // Date.now() of the last message from the partner
+  const peerVersionRef = useRef<number>(0); // Protocol version from the partner's HELLO, 0 until then
+  const stopIceRestartRef = useRef<(() => void) | null>(null);
+  // Sealing and opening are async; chaining keeps messages in order
+  const sendChainRef = useRef<Promise<void>>(Promise.resolve());
+  const receiveChainRef = useRef<Promise<void>>(Promise.resolve());
+  const snapshotPartsRef = useRef<string[]>([]); // SYNC_SNAPSHOT parts received so far
+  // Mirror of opLog for event handlers, which must not wait for a re-render
+  const opLogRef = useRef<OpLog>(opLog);
+
+  // --- Derived Board State ---
+  const board = useMemo(() => deriveBoard(opLog), [opLog]);
+  const strokes = useMemo(() => viewStrokes(board, opLog.self), [board, opLog.self]);
+  const liveStrokeList = useMemo(() => Object.values(liveStrokes), [liveStrokes]);
+  const cardMarks = useMemo(() => viewCardMarks(board, opLog.self), [board, opLog.self]);
 
   // --- Session Management ---
 
   const saveSession = (mode: Mode, role: Role, code: string) => {
-    const session: SessionData = { mode, role, code, timestamp: Date.now() };
+    const session: SessionData = { mode, role, code, timestamp: Date.now(), id: createId() };
     localStorage.setItem('chkobba_session', JSON.stringify(session));
+    // A new session starts from an empty board authored under the new role
+    clearSavedLog();
+    updateLog(createLog(role));
+    setRecording(null);
+  };
+
+  const loadSession = (): SessionData | null => {
+    try {
+      const saved = localStorage.getItem('chkobba_session');
+      return saved ? JSON.parse(saved) : null;
+    } catch (e) {
+      return null;
+    }
+  };
+
+  const updateSession = (patch: Partial<SessionData>) => {
+    const session = loadSession();
+    if (session) localStorage.setItem('chkobba_session', JSON.stringify({ ...session, ...patch }));
   };
 
   const clearSession = () => {
     localStorage.removeItem('chkobba_session');
     // Also clear manual state backup
     localStorage.removeItem('chkobba_manual_state');
+    clearSavedLog();
+    clearSignalLog();
+    setRecording(null);
+  };
+
+  const updateLog = (next: OpLog) => {
+    opLogRef.current = next;
+    setOpLog(next);
+  };
+
+  // Merges the partner's Ops (or our own, resent after lost storage), recording only the new ones
+  const mergeOps = (log: OpLog, ops: Op[]) => {
+    const fresh = freshOps(log, ops);
+    updateLog(integrate(log, fresh));
+    fresh.forEach(op => record(op.message, op.author !== log.self));
+  };
+
+  // --- Recorder ---
+
+  const setRecording = (id: string | null) => {
+    recordingIdRef.current = id;
+    setRecordingId(id);
+    saveCurrentRecording(id);
+  };
+
+  // Picks up from the board as it is now; the game before that is not in the recording
+  const startRecording = () => {
+    const { recording, saved } = createRecording(opLogRef.current.self, deriveBoard(opLogRef.current));
+    saved.catch(e => console.warn("Could not start recording", e));
+    setRecording(recording.id);
+  };
+
+  const record = (message: RecordedMessage, fromPartner: boolean) => {
+    const recordingId = recordingIdRef.current;
+    if (!recordingId) return;
+    recordEvent({ recordingId, at: Date.now(), fromPartner, message }).catch(e => console.warn("Could not record", e));
+  };
+
+  const toggleRecording = (enabled: boolean) => {
+    setRecordingEnabled(enabled);
+    saveRecordingEnabled(enabled);
+    if (!enabled) setRecording(null);
+    else if (view === 'GAME') startRecording();
   };
 
+  // Recording games is opt-in; each game gets its own recording once connected
+  useEffect(() => {
+    if (view === 'GAME' && recordingEnabled && !recordingIdRef.current) startRecording();
+  }, [view]);
+
   // Restore Session on Mount
   useEffect(() => {
     const saved = localStorage.getItem('chkobba_session');
@@ -76,6 +306,7 @@ export default function App() {
         // Only restore if less than 2 hours old to prevent stale broken states
         if (Date.now() - session.timestamp < 2 * 60 * 60 * 1000) {
           console.log("Restoring session:", session);
+          updateLog(loadLog(session.code, session.role) || createLog(session.role));
           
           if (session.mode === 'CLOUD') {
             setShortCode(session.code);
@@ -110,8 +341,14 @@ export default function App() {
 
     return () => {
       pcRef.current?.close();
-      mqttClientRef.current?.end();
+      signalingRef.current?.close();
       if (reconnectTimeoutRef.current) clearTimeout(reconnectTimeoutRef.current);
+      if (helloTimeoutRef.current) clearTimeout(helloTimeoutRef.current);
+      Object.values(liveStrokeTimersRef.current).forEach(clearTimeout);
+      if (recognizeTimeoutRef.current) clearTimeout(recognizeTimeoutRef.current);
+      if (rankBadgeTimeoutRef.current) clearTimeout(rankBadgeTimeoutRef.current);
+      if (signalBannerTimeoutRef.current) clearTimeout(signalBannerTimeoutRef.current);
+      if (flashTimeoutRef.current) clearTimeout(flashTimeoutRef.current);
     };
   }, []);
 
@@ -122,6 +359,35 @@ export default function App() {
     }
   }, [localOffer, remoteAnswer, view]);
 
+  // Shake to panic, only while a game is on screen
+  useEffect(() => {
+    if (view !== 'GAME' || !panicSettings.shake || panicHidden) return;
+    return watchShake(() => triggerPanic());
+  }, [view, panicSettings.shake, panicHidden]);
+
+  // Two fingers held still anywhere in the game; a resting palm or the stylus hand doesn't count
+  useEffect(() => {
+    if (view !== 'GAME' || panicHidden) return;
+    return watchTwoFingerHold(() => triggerPanic());
+  }, [view, panicHidden]);
+
+  // Persist the board so a reload only needs the operations missed meanwhile
+  useEffect(() => {
+    const session = loadSession();
+    if (!session || (opLog.ops.length === 0 && opLog.lamport === 0)) return;
+    const timer = setTimeout(() => saveLog(session.code, opLog), 300);
+    return () => clearTimeout(timer);
+  }, [opLog]);
+
+  // Live connect timer for the lobby
+  useEffect(() => {
+    if (view !== 'HOST_LOBBY' && view !== 'JOIN_LOBBY') return;
+    const timer = setInterval(() => {
+      if (connectStartRef.current) setConnectElapsed(performance.now() - connectStartRef.current);
+    }, 100);
+    return () => clearInterval(timer);
+  }, [view]);
+
   // --- Wake Lock & Heartbeat & Visibility ---
   useEffect(() => {
     let wakeLock: any = null;
@@ -138,33 +404,26 @@ export default function App() {
       }
     };
 
+    const heartbeatIsStale = () => Date.now() - lastPeerMessageRef.current > HEARTBEAT_TIMEOUT_MS;
+
     if (view === 'GAME') {
       requestWakeLock();
       heartbeatInterval = setInterval(() => {
-        if (dataChannelRef.current?.readyState === 'open') {
-          try {
-            dataChannelRef.current.send(JSON.stringify({ type: 'HEARTBEAT' }));
-          } catch (e) {}
-        }
-      }, 3000);
+        try {
+          sendSync('HEARTBEAT', { sentAt: Date.now() });
+        } catch (e) {}
+        // The reducer ignores this unless we currently think we're connected
+        if (heartbeatIsStale()) dispatchConnection({ type: 'STALL' });
+      }, HEARTBEAT_INTERVAL_MS);
     }
 
-    // Auto-reconnect on visibility change (User comes back to app)
+    // Coming back from a locked screen: don't wait out the stall grace period
     const handleVisibilityChange = () => {
       if (document.visibilityState === 'visible') {
         requestWakeLock();
-        // If we are in GAME view but disconnected, try to reconnect
-        if (view === 'GAME' && pcRef.current?.connectionState !== 'connected') {
-           const saved = localStorage.getItem('chkobba_session');
-           if (saved) {
-             const session: SessionData = JSON.parse(saved);
-             if (session.mode === 'CLOUD') {
-               console.log("App visible but disconnected. Reconnecting...");
-               setIsReconnecting(true);
-               if (session.role === 'HOST') connectCloudHost(session.code);
-               else connectCloudJoiner(session.code);
-             }
-           }
+        if (view === 'GAME' && (heartbeatIsStale() || pcRef.current?.connectionState !== 'connected')) {
+          console.log("App visible but link is dead. Recovering...");
+          dispatchConnection({ type: 'LOST' });
         }
       }
     };
@@ -179,6 +438,40 @@ export default function App() {
     };
   }, [view]);
 
+  // --- Connection Recovery ---
+  // Each phase of the connection state machine owns one side effect and one timer
+  useEffect(() => {
+    let timer: any = null;
+    const after = (ms: number, event: ConnectionEvent) => {
+      timer = setTimeout(() => dispatchConnection(event), ms);
+    };
+
+    switch (connection.phase) {
+      case 'STALLED':
+        after(STALL_GRACE_MS, { type: 'TIMEOUT' });
+        break;
+      case 'ICE_RESTART':
+        restartIce();
+        after(ICE_RESTART_TIMEOUT_MS, { type: 'TIMEOUT' });
+        break;
+      case 'BACKOFF':
+        after(connection.retryDelay, { type: 'RETRY_DUE' });
+        break;
+      case 'RESIGNALING':
+        resignal();
+        after(RESIGNAL_TIMEOUT_MS, { type: 'TIMEOUT' });
+        break;
+    }
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      if (connection.phase === 'ICE_RESTART') {
+        stopIceRestartRef.current?.();
+        stopIceRestartRef.current = null;
+      }
+    };
+  }, [connection.phase, connection.attempt]);
+
   // --- Actions ---
 
   const copyToClipboard = (text: string) => {
@@ -187,20 +480,263 @@ export default function App() {
     setTimeout(() => setCopied(false), 2000);
   };
 
+  const updateSignaling = (patch: Partial<SignalingSettings>) => {
+    const next = { ...signalingSettings, ...patch };
+    setSignalingSettings(next);
+    saveSignalingSettings(next);
+  };
+
+  // Records one of our own shared-state changes and sends it stamped to the partner
+  const commitOp = (change: Unstamped) => {
+    const { log, message } = appendLocal(opLogRef.current, change);
+    updateLog(log);
+    sendMessage(message);
+    record(message, false);
+  };
+
   const clearBoard = () => {
-    setStrokes([]);
-    sendSync('CLEAR_BOARD', {});
+    commitOp({ type: 'CLEAR_BOARD' });
+    setUndoStack([]);
+    setRedoStack([]);
+  };
+
+  // A saved board, drawn as mine stroke by stroke so the partner gets it like any drawing
+  // Every imported stroke is sent as ours; drawnBy marks the ones the file says our partner drew
+  const importBoard = (imported: Stroke[], replace: boolean) => {
+    if (replace) clearBoard();
+    const partner = partnerOf(opLogRef.current.self);
+    imported.forEach(({ isRemote, ...stroke }) => {
+      const drawnBy = isRemote ? { drawnBy: partner } : {};
+      commitOp({ type: 'SYNC_STROKE', stroke: { ...stroke, ...drawnBy, isRemote: false, points: prepareStrokePoints(stroke.points) } });
+      recordEdit({ kind: 'DRAW', strokeId: stroke.id });
+    });
+  };
+
+  // --- Undo / Redo / Eraser ---
+
+  const recordEdit = (edit: BoardEdit) => {
+    setUndoStack(stack => [...stack, edit]);
+    setRedoStack([]);
+  };
+
+  // The op that undoes or redoes an edit, or null if there is nothing left to
+  // do: the stroke was cleared, or the partner's eraser got there first
+  const editOp = (edit: BoardEdit, direction: 'UNDO' | 'REDO'): Unstamped | null => {
+    const log = opLogRef.current;
+    const entry = deriveBoard(log).strokes.find(s => s.stroke.id === edit.strokeId);
+    if (!entry) return null;
+    // Faded-out ink is gone for good
+    const end = expiresAt({ ...entry.stroke, isRemote: entry.author !== log.self }, clockOffset);
+    if (end !== null && end <= Date.now()) return null;
+    const remove = (edit.kind === 'DRAW') === (direction === 'UNDO');
+    if (!!entry.removed === remove) return null;
+    return remove ? { type: 'STROKE_REMOVE', strokeId: edit.strokeId } : { type: 'STROKE_RESTORE', strokeId: edit.strokeId };
+  };
+
+  // Pops edits off `from` until one still applies, and moves it onto `to`
+  const stepHistory = (from: BoardEdit[], direction: 'UNDO' | 'REDO'): { from: BoardEdit[]; moved: BoardEdit | null } => {
+    const stack = [...from];
+    while (stack.length > 0) {
+      const edit = stack.pop()!;
+      const op = editOp(edit, direction);
+      if (op) {
+        commitOp(op);
+        return { from: stack, moved: edit };
+      }
+    }
+    return { from: stack, moved: null };
+  };
+
+  const undo = () => {
+    const { from, moved } = stepHistory(undoStack, 'UNDO');
+    setUndoStack(from);
+    if (moved) setRedoStack(stack => [...stack, moved]);
+  };
+
+  const redo = () => {
+    const { from, moved } = stepHistory(redoStack, 'REDO');
+    setRedoStack(from);
+    if (moved) setUndoStack(stack => [...stack, moved]);
+  };
+
+  const eraseStroke = (strokeId: string) => {
+    commitOp({ type: 'STROKE_REMOVE', strokeId });
+    recordEdit({ kind: 'ERASE', strokeId });
+  };
+
+  const flashScreen = (color: string) => {
+    setFlashColor(color);
+    if (flashTimeoutRef.current) clearTimeout(flashTimeoutRef.current);
+    flashTimeoutRef.current = setTimeout(() => setFlashColor(null), 500);
+  };
+
+  const logSignal = (label: string, color: string, fromPartner: boolean) => {
+    setSignalLog(log => appendSignalLog(log, { at: Date.now(), fromPartner, label, color }));
+  };
+
+  // Every incoming vibration goes through here, so phones without the Vibration API still get something
+  const buzz = (pattern: number[], code?: string) => {
+    if (!vibrate(pattern)) setPulse({ pattern, code, at: Date.now() });
   };
 
   const triggerPing = () => {
     if (navigator.vibrate) navigator.vibrate(50);
     sendSync('PING', {});
+    logSignal('Ping', PING_FLASH_COLOR, false);
   };
 
   const handleIncomingPing = () => {
-    setFlash(true);
-    if (navigator.vibrate) navigator.vibrate([200, 100, 200]);
-    setTimeout(() => setFlash(false), 500);
+    flashScreen(PING_FLASH_COLOR);
+    buzz([200, 100, 200]);
+    logSignal('Ping', PING_FLASH_COLOR, true);
+  };
+
+  // --- Quick Signals ---
+
+  const sendQuickSignal = (signal: QuickSignal) => {
+    if (navigator.vibrate) navigator.vibrate(50);
+    sendSync('QUICK_SIGNAL', { signal });
+    logSignal(signal.label, signal.color, false);
+  };
+
+  const handleIncomingQuickSignal = (signal: QuickSignal) => {
+    flashScreen(signal.color);
+    buzz(signal.vibration);
+    setSignalBanner(signal);
+    if (signalBannerTimeoutRef.current) clearTimeout(signalBannerTimeoutRef.current);
+    signalBannerTimeoutRef.current = setTimeout(() => setSignalBanner(null), SIGNAL_BANNER_MS);
+    logSignal(signal.label, signal.color, true);
+  };
+
+  const updateHapticSettings = (settings: HapticSettings) => {
+    hapticSettingsRef.current = settings;
+    setHapticSettings(settings);
+    saveHapticSettings(settings);
+  };
+
+  const updateQuickSignals = (signals: QuickSignal[]) => {
+    setQuickSignals(signals);
+    saveQuickSignals(signals);
+  };
+
+  const clearLog = () => {
+    clearSignalLog();
+    setSignalLog([]);
+  };
+
+  // --- Card Tracker ---
+
+  const shakeCard = (id: string, duration: number) => {
+    setShakingCardId(id);
+    if (shakeTimeoutRef.current) clearTimeout(shakeTimeoutRef.current);
+    shakeTimeoutRef.current = setTimeout(() => setShakingCardId(null), duration);
+  };
+
+  // My selection is only mine; the partner sees it as their "partner selected" marker
+  const toggleCardSelect = (id: string) => {
+    commitOp({ type: 'CARD_SELECT', cardId: id, value: !(cardMarks[id]?.selectedByMe) });
+  };
+
+  // Crossed and circled are shared marks, identical on both grids
+  const toggleCardCross = (id: string) => {
+    commitOp({ type: 'CARD_CROSS', cardId: id, value: !(cardMarks[id]?.crossed) });
+  };
+
+  const toggleCardCircle = (id: string) => {
+    commitOp({ type: 'CARD_CIRCLE', cardId: id, value: !(cardMarks[id]?.circled) });
+  };
+
+  const setCardFate = (id: string, fate: CardFate | null) => {
+    commitOp({ type: 'CARD_FATE', cardId: id, fate });
+  };
+
+  const setHandsDealt = (value: number) => {
+    if (value !== board.handsDealt) commitOp({ type: 'HANDS_DEALT', value });
+  };
+
+  const signalCard = (id: string) => {
+    if (navigator.vibrate) navigator.vibrate(50);
+    shakeCard(id, 600);
+    sendSync('CARD_SIGNAL', { cardId: id });
+    logSignal(`Card ${id}`, CARD_SIGNAL_COLOR, false);
+  };
+
+  const resetTracker = () => {
+    commitOp({ type: 'RESET' });
+  };
+
+  const handleIncomingCardSignal = (id: string) => {
+    setActiveTab('CARDS');
+    shakeCard(id, 3000);
+    const haptics = hapticSettingsRef.current;
+    if (haptics.enabled) {
+      const code = cardCode(id, haptics);
+      buzz(toPattern(code, haptics.unit), code);
+    } else {
+      buzz([100, 50, 100, 50, 300]);
+    }
+    logSignal(`Card ${id}`, CARD_SIGNAL_COLOR, true);
+  };
+
+  // --- Scorekeeper ---
+
+  const saveRound = (round: RoundTally) => {
+    const before = board.score.rounds.find(r => r.id === round.id) || null;
+    commitOp({ type: 'SCORE_ROUND', round });
+    setScoreUndoStack(stack => [...stack, { roundId: round.id, before }]);
+  };
+
+  const removeRound = (roundId: string) => {
+    const before = board.score.rounds.find(r => r.id === roundId);
+    if (!before) return;
+    commitOp({ type: 'SCORE_REMOVE', roundId });
+    setScoreUndoStack(stack => [...stack, { roundId, before }]);
+  };
+
+  const undoScore = () => {
+    const edit = scoreUndoStack[scoreUndoStack.length - 1];
+    if (!edit) return;
+    commitOp(edit.before ? { type: 'SCORE_ROUND', round: edit.before } : { type: 'SCORE_REMOVE', roundId: edit.roundId });
+    setScoreUndoStack(stack => stack.slice(0, -1));
+  };
+
+  const setMatchTarget = (target: number) => {
+    if (target !== board.score.target) commitOp({ type: 'SCORE_TARGET', target });
+  };
+
+  const newMatch = () => {
+    if (!confirm("Start a new match? All rounds are cleared on both phones.")) return;
+    commitOp({ type: 'SCORE_RESET' });
+    setScoreUndoStack([]);
+  };
+
+  // --- Panic ---
+
+  // Hides everything behind the decoy; the game keeps running underneath
+  const triggerPanic = (broadcast = true) => {
+    setPanicHidden(true);
+    saveHidden(true);
+    setShowTrainer(false);
+    setShowPanicSettings(false);
+    setShowSignalSettings(false);
+    setShowSignalLog(false);
+    setShowHapticSettings(false);
+    setShowHapticPractice(false);
+    setShowRecordings(false);
+    setShowBoardFile(false);
+    setRankBadge(null);
+    setSignalBanner(null);
+    if (broadcast) sendSync('PANIC', {});
+  };
+
+  const unlockPanic = () => {
+    setPanicHidden(false);
+    saveHidden(false);
+  };
+
+  const updatePanicSettings = (settings: PanicSettings) => {
+    setPanicSettings(settings);
+    savePanicSettings(settings);
   };
 
   const exitGame = () => {
@@ -214,27 +750,34 @@ export default function App() {
 
   const initPC = () => {
     if (pcRef.current) pcRef.current.close();
+    dataKeyRef.current = null;
+    sessionKeysRef.current = null;
+    setE2eActive(false);
     const pc = new RTCPeerConnection(RTC_CONFIG);
     
     pc.onconnectionstatechange = () => {
       console.log("Connection State:", pc.connectionState);
       if (pc.connectionState === 'connected') {
+        if (connectStartRef.current) {
+          setLastConnectMs(performance.now() - connectStartRef.current);
+          connectStartRef.current = 0;
+        }
         setStatus('Connected');
         setView('GAME');
         setIsReconnecting(false);
-        mqttClientRef.current?.end(); // Close signaling once P2P connects
-      } else if (pc.connectionState === 'disconnected' || pc.connectionState === 'failed') {
-        setStatus('Disconnected. Trying to reconnect...');
-        // Optional: Trigger auto-reconnect logic here if needed
+        dispatchConnection({ type: 'CONNECTED' });
+        signalingRef.current?.close(); // Close signaling once P2P connects
+        signalingRef.current = null;
+      } else if (pc.connectionState === 'disconnected') {
+        // This often happens when screen goes off, and often heals by itself
+        dispatchConnection({ type: 'STALL' });
+      } else if (pc.connectionState === 'failed') {
+        dispatchConnection({ type: 'LOST' });
       }
     };
 
     pc.oniceconnectionstatechange = () => {
        console.log("ICE State:", pc.iceConnectionState);
-       if (pc.iceConnectionState === 'disconnected') {
-         // This often happens when screen goes off
-         setStatus('Connection paused...');
-       }
     }
 
     pc.ondatachannel = (e) => {
@@ -247,183 +790,870 @@ export default function App() {
 
   const setupDataChannel = (channel: RTCDataChannel) => {
     dataChannelRef.current = channel;
+    channel.binaryType = 'arraybuffer';
     channel.onopen = () => {
+      peerVersionRef.current = 0; // JSON only until the partner's HELLO says otherwise
       setStatus('Connected');
       setView('GAME');
+      lastPeerMessageRef.current = Date.now();
+      dispatchConnection({ type: 'CONNECTED' });
+      setProtocolWarning('');
+      channel.send(encodeMessage(createHello()));
+
+      // Builds that predate the handshake never answer HELLO
+      if (helloTimeoutRef.current) clearTimeout(helloTimeoutRef.current);
+      helloTimeoutRef.current = setTimeout(() => {
+        setProtocolWarning("Partner didn't answer the version check. Their app may be outdated, ask them to reload.");
+      }, HELLO_TIMEOUT_MS);
     };
     channel.onmessage = (e) => {
+      // Any traffic proves the link is alive, heartbeats included
+      lastPeerMessageRef.current = Date.now();
+      dispatchConnection({ type: 'CONNECTED' });
+      receiveRaw(e.data);
+    };
+    channel.onclose = () => {
+      if (dataChannelRef.current === channel) dispatchConnection({ type: 'STALL' });
+    };
+  };
+
+  const receiveRaw = (raw: unknown, sealed = false) => {
+    if (raw instanceof ArrayBuffer) {
+      receiveFrame(new Uint8Array(raw), sealed);
+      return;
+    }
+
+    const result = parseMessage(raw);
+    if (result.ok === false) {
+      console.warn("Protocol:", result.error, raw);
+      setProtocolWarning(result.error);
+      return;
+    }
+    const message = result.message;
+
+    if (message.type === 'SEALED') {
+      const key = dataKeyRef.current;
+      if (!key || sealed) {
+        setProtocolWarning('Received an encrypted message that cannot be opened.');
+        return;
+      }
+      receiveChainRef.current = receiveChainRef.current.then(async () => {
+        try {
+          receiveRaw(await openBox(key, message, 'data'), true);
+        } catch (err) {
+          console.warn("Protocol: failed to open sealed message", err);
+          setProtocolWarning('Received a tampered or mis-keyed message. It was dropped.');
+        }
+      });
+      return;
+    }
+
+    deliver(message, sealed);
+  };
+
+  const receiveFrame = (frame: Uint8Array, sealed: boolean) => {
+    if (frame[0] === FRAME_SEALED) {
+      const key = dataKeyRef.current;
+      if (!key || sealed) {
+        setProtocolWarning('Received an encrypted message that cannot be opened.');
+        return;
+      }
+      receiveChainRef.current = receiveChainRef.current.then(async () => {
+        try {
+          receiveFrame(await openBytes(key, frame.subarray(1), 'data'), true);
+        } catch (err) {
+          console.warn("Protocol: failed to open sealed frame", err);
+          setProtocolWarning('Received a tampered or mis-keyed message. It was dropped.');
+        }
+      });
+      return;
+    }
+
+    const result = parseFrame(frame);
+    if (result.ok === false) {
+      console.warn("Protocol:", result.error);
+      setProtocolWarning(result.error);
+      return;
+    }
+    deliver(result.message, sealed);
+  };
+
+  const deliver = (message: SignalMessage, sealed: boolean) => {
+    // Once a key is agreed everything but the version handshake must be sealed
+    if (dataKeyRef.current && !sealed && message.type !== 'HELLO') {
+      setProtocolWarning(`Rejected an unencrypted "${message.type}" message.`);
+      return;
+    }
+
+    handleMessage(message);
+  };
+
+  const handleMessage = (message: SignalMessage) => {
+    if (isSignalMessage(message)) record(message, true);
+    switch (message.type) {
+      case 'HELLO': {
+        if (helloTimeoutRef.current) clearTimeout(helloTimeoutRef.current);
+        const problem = checkCompatibility(message);
+        setProtocolWarning(problem || '');
+        peerVersionRef.current = message.version;
+        // Every (re)connect starts by catching up on what we missed
+        if (!problem) sendSync('SYNC_REQUEST', { vector: opLogRef.current.vector });
+        break;
+      }
+      case 'SYNC_REQUEST':
+        missingFor(opLogRef.current, message.vector).forEach(sendMessage);
+        break;
+      case 'SYNC_SNAPSHOT': {
+        // Parts arrive in order on the reliable channel; part 0 starts a new snapshot
+        if (message.part === 0) snapshotPartsRef.current = [];
+        snapshotPartsRef.current[message.part] = message.data;
+        if (message.part < message.parts - 1) break;
+        const snapshot = joinSnapshot(snapshotPartsRef.current, message.parts);
+        snapshotPartsRef.current = [];
+        if (!snapshot) {
+          setProtocolWarning('Received a damaged board snapshot. It was dropped.');
+          break;
+        }
+        const log = applySnapshot(opLogRef.current, snapshot);
+        // Only a snapshot ahead of ours replaces the board; replays restart from it
+        if (log !== opLogRef.current) record({ type: 'SNAPSHOT', snapshot }, true);
+        updateLog(log);
+        break;
+      }
+      case 'SYNC_OPS':
+        mergeOps(opLogRef.current, message.ops);
+        break;
+      case 'HEARTBEAT': {
+        const offset = clockRef.current.add(message.sentAt);
+        // Small jitter is not worth a re-render
+        setClockOffset(prev => (Math.abs(prev - offset) > 50 ? offset : prev));
+        break;
+      }
+      case 'SEALED': // Unwrapped in receiveRaw, never nested
+        break;
+      case 'SYNC_STROKE':
+      case 'STROKE_REMOVE':
+      case 'STROKE_RESTORE':
+      case 'CLEAR_BOARD':
+      case 'RESET':
+      case 'CARD_SELECT':
+      case 'CARD_CROSS':
+      case 'CARD_CIRCLE':
+      case 'CARD_FATE':
+      case 'HANDS_DEALT':
+      case 'SCORE_ROUND':
+      case 'SCORE_REMOVE':
+      case 'SCORE_TARGET':
+      case 'SCORE_RESET': {
+        const op: Op = { author: partnerOf(opLogRef.current.self), message };
+        mergeOps(opLogRef.current, [op]);
+        if (message.type === 'SYNC_STROKE') dropLiveStroke(message.stroke.id);
+        break;
+      }
+      case 'STROKE_PARTIAL':
+        handleIncomingPartialStroke(message);
+        break;
+      case 'STROKE_CANCEL':
+        dropLiveStroke(message.strokeId);
+        break;
+      case 'PANIC':
+        triggerPanic(false);
+        break;
+      case 'RANK_BADGE':
+        showRankBadge(message.rank, true);
+        if (hapticSettingsRef.current.enabled) {
+          const haptics = hapticSettingsRef.current;
+          const code = rankCode(message.rank, haptics);
+          buzz(toPattern(code, haptics.unit), code);
+        }
+        break;
+      case 'PING':
+        handleIncomingPing();
+        break;
+      case 'CARD_SIGNAL':
+        handleIncomingCardSignal(message.cardId);
+        break;
+      case 'QUICK_SIGNAL':
+        handleIncomingQuickSignal(message.signal);
+        break;
+    }
+  };
+
+  const sendSync = <T extends SignalMessageType>(type: T, payload: Omit<Extract<SignalMessage, { type: T }>, 'type'>) => {
+    const message = { type, ...payload } as SignalMessage;
+    sendMessage(message);
+    if (isSignalMessage(message)) record(message, false);
+  };
+
+  // Shared-state messages sent while disconnected are not lost: they stay in
+  // the op log and reach the partner with the next SYNC_REQUEST
+  const sendMessage = (message: SignalMessage) => {
+    const channel = dataChannelRef.current;
+    if (channel?.readyState !== 'open') return;
+
+    // Strokes go binary to partners that understand it. JSON stays the fallback:
+    // until the partner's HELLO arrives, and for a stroke the codec can't encode
+    const frame = peerVersionRef.current >= BINARY_FRAMES_VERSION ? binaryFrame(message) : null;
+    const key = dataKeyRef.current;
+    if (!key || message.type === 'HELLO') {
+      trySend(message, () => {
+        if (frame) channel.send(frame);
+        else channel.send(encodeMessage(message));
+      });
+      return;
+    }
+
+    sendChainRef.current = sendChainRef.current.then(async () => {
       try {
-        const data = JSON.parse(e.data);
-        if (data.type === 'SYNC_STROKE' && data.stroke) {
-          setStrokes(prev => [...prev, { ...data.stroke, isRemote: true, color: '#22c55e' }]);
-        } else if (data.type === 'CLEAR_BOARD') {
-          setStrokes([]);
-        } else if (data.type === 'PING') {
-          handleIncomingPing();
+        if (frame) {
+          const sealed = await sealBytes(key, frame, 'data');
+          const envelope = new Uint8Array(sealed.length + 1);
+          envelope[0] = FRAME_SEALED;
+          envelope.set(sealed, 1);
+          if (channel.readyState === 'open') trySend(message, () => channel.send(envelope));
+          return;
         }
-      } catch (err) {}
-    };
+        const box = await sealBox(key, encodeMessage(message), 'data');
+        if (channel.readyState === 'open') trySend(message, () => channel.send(encodeMessage({ type: 'SEALED', ...box })));
+      } catch (err) {
+        console.error("Failed to seal message", err);
+      }
+    });
   };
 
-  const sendSync = (type: any, payload: any) => {
-    if (dataChannelRef.current?.readyState === 'open') {
-      dataChannelRef.current.send(JSON.stringify({ type, ...payload }));
+  const binaryFrame = (message: SignalMessage): Uint8Array | null => {
+    try {
+      return encodeFrame(message);
+    } catch (err) {
+      console.warn(`Sending "${message.type}" as JSON instead`, err);
+      return null;
     }
   };
 
-  const handleStrokeComplete = (points: Point[]) => {
+  // send() throws when the channel closes under us or a message is over the
+  // size limit. Shared state is resent by the next resync; a signal is lost
+  const trySend = (message: SignalMessage, send: () => void) => {
+    try {
+      send();
+    } catch (err) {
+      console.error(`Failed to send "${message.type}"`, err);
+      setProtocolWarning(`Could not send a "${message.type}" message to your partner.`);
+    }
+  };
+
+  const activateSessionKeys = (keys: SessionKeys) => {
+    sessionKeysRef.current = keys;
+    dataKeyRef.current = keys.dataKey;
+    setE2eActive(true);
+  };
+
+  // --- Live Strokes ---
+
+  const handleStrokeProgress = (points: Point[], pressure?: number) => {
+    // Still writing: hold off reading the glyph
+    if (recognizeTimeoutRef.current) clearTimeout(recognizeTimeoutRef.current);
+    if (!outgoingStrokeRef.current) outgoingStrokeRef.current = { id: createId(), sent: 0 };
+    const outgoing = outgoingStrokeRef.current;
+    const { color, width, highlighter } = styleFor(tool, brush, pressure);
+    sendSync('STROKE_PARTIAL', { strokeId: outgoing.id, color, width, highlighter, start: outgoing.sent, points });
+    outgoing.sent += points.length;
+  };
+
+  const handleStrokeCancel = () => {
+    if (outgoingStrokeRef.current) sendSync('STROKE_CANCEL', { strokeId: outgoingStrokeRef.current.id });
+    outgoingStrokeRef.current = null;
+  };
+
+  const dropLiveStroke = (id: string) => {
+    clearTimeout(liveStrokeTimersRef.current[id]);
+    delete liveStrokeTimersRef.current[id];
+    setLiveStrokes(prev => {
+      if (!prev[id]) return prev;
+      const { [id]: _, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const handleIncomingPartialStroke = (message: Extract<SignalMessage, { type: 'STROKE_PARTIAL' }>) => {
+    const id = message.strokeId;
+    // Arrived after the finished stroke, e.g. replayed around a reconnect
+    const isNew = !liveStrokeTimersRef.current[id];
+    if (isNew && deriveBoard(opLogRef.current).strokes.some(s => s.stroke.id === id)) return;
+
+    setLiveStrokes(prev => {
+      const known = prev[id]?.points || [];
+      // A gap means lost updates; the finished stroke will carry every point anyway
+      if (message.start > known.length) return prev;
+      const points = [...known.slice(0, message.start), ...message.points];
+      return { ...prev, [id]: { id, points, color: message.color, width: message.width, highlighter: message.highlighter, isRemote: true } };
+    });
+
+    clearTimeout(liveStrokeTimersRef.current[id]);
+    liveStrokeTimersRef.current[id] = setTimeout(() => dropLiveStroke(id), LIVE_STROKE_TIMEOUT_MS);
+  };
+
+  const handleStrokeComplete = (points: Point[], pressure?: number) => {
+    // Same id as the streamed preview, so the partner can swap it for the real stroke
+    const id = outgoingStrokeRef.current?.id || createId();
+    outgoingStrokeRef.current = null;
     const newStroke: Stroke = {
-      id: Date.now().toString(),
-      points,
-      color: '#3b82f6',
-      isRemote: false
+      id,
+      points: prepareStrokePoints(points), // What the op log holds and the codec sends exactly
+      ...styleFor(tool, brush, pressure),
+      isRemote: false,
+      ...(inkSettings.ttl ? { createdAt: Date.now(), ttl: inkSettings.ttl } : {}),
     };
-    setStrokes(prev => [...prev, newStroke]);
-    sendSync('SYNC_STROKE', { stroke: newStroke });
+    commitOp({ type: 'SYNC_STROKE', stroke: newStroke });
+    recordEdit({ kind: 'DRAW', strokeId: newStroke.id });
+    if (tool === 'PEN') queueRecognition(newStroke.id); // Highlighting and stamps are never digits
+  };
+
+  // --- Handwriting Recognition ---
+
+  const showRankBadge = (rank: number, fromPartner: boolean) => {
+    setRankBadge({ rank, fromPartner });
+    if (fromPartner && navigator.vibrate) navigator.vibrate(80);
+    if (rankBadgeTimeoutRef.current) clearTimeout(rankBadgeTimeoutRef.current);
+    rankBadgeTimeoutRef.current = setTimeout(() => setRankBadge(null), RANK_BADGE_MS);
+  };
+
+  const queueRecognition = (strokeId: string) => {
+    glyphStrokeIdsRef.current.push(strokeId);
+    if (recognizeTimeoutRef.current) clearTimeout(recognizeTimeoutRef.current);
+    recognizeTimeoutRef.current = setTimeout(recognizeGlyph, RECOGNIZE_DELAY_MS);
+  };
+
+  // Runs on the writer's phone, with the writer's own samples; only the rank is sent
+  const recognizeGlyph = () => {
+    const ids = new Set(glyphStrokeIdsRef.current);
+    glyphStrokeIdsRef.current = [];
+    const glyph = deriveBoard(opLogRef.current).strokes
+      .filter(s => ids.has(s.stroke.id) && !s.removed) // Undone meanwhile
+      .map(s => toBoardUnits(s.stroke.points));
+    if (glyph.length === 0) return;
+
+    const result = recognize(glyph, [...userTemplates, ...BUILTIN_TEMPLATES]);
+    if (!result) return;
+    showRankBadge(result.rank, false);
+    sendSync('RANK_BADGE', { rank: result.rank });
+  };
+
+  // --- Fading Ink ---
+
+  const updateInk = (patch: Partial<InkSettings>) => {
+    const next = { ...inkSettings, ...patch };
+    setInkSettings(next);
+    saveInkSettings(next);
+  };
+
+  // Off -> shortest TTL -> ... -> longest -> Off
+  const cycleInkTtl = () => {
+    const i = inkSettings.ttl === null ? -1 : FADING_TTL_OPTIONS.indexOf(inkSettings.ttl);
+    updateInk({ ttl: i + 1 < FADING_TTL_OPTIONS.length ? FADING_TTL_OPTIONS[i + 1] : null });
+  };
+
+  const updateBrush = (next: BrushSettings) => {
+    setBrush(next);
+    saveBrush(next);
+  };
+
+  const updateTemplates = (templates: Template[]) => {
+    setUserTemplates(templates);
+    saveUserTemplates(templates);
   };
 
   // --- CLOUD MODE (Short Codes) ---
 
   const startCloudHost = () => {
-    const code = Math.floor(1000 + Math.random() * 9000).toString();
+    const code = generateRoomCode();
     setShortCode(code);
     saveSession('CLOUD', 'HOST', code);
     connectCloudHost(code);
   };
 
+  // Trickled candidates travel as JSON; null is the end-of-candidates marker
+  const encodeCandidate = (candidate: RTCIceCandidateInit | null) =>
+    JSON.stringify(candidate ? { candidate } : { done: true });
+
+  const decodeCandidate = (text: string): RTCIceCandidateInit | null => {
+    const data = JSON.parse(text);
+    return data.done ? null : data.candidate;
+  };
+
+  const addRemoteCandidate = async (pc: RTCPeerConnection, candidate: RTCIceCandidateInit | null) => {
+    try {
+      // No argument signals end-of-candidates
+      await (candidate ? pc.addIceCandidate(candidate) : pc.addIceCandidate());
+    } catch (e) {
+      console.warn("addIceCandidate failed", e);
+    }
+  };
+
+  // Connects to the first reachable signaling endpoint from the user's settings
+  const openSignaling = async (code: string, topics: SignalTopic[], onMessage: (topic: SignalTopic, payload: string) => void) => {
+    signalingRef.current?.close();
+    signalingRef.current = null;
+    try {
+      const transport = await connectWithFallback(endpointsFor(signalingSettings), { room: code, topics, onMessage });
+      signalingRef.current = transport;
+      setSignalingLabel(transport.label);
+      return transport;
+    } catch (e: any) {
+      console.error("Signaling failed", e);
+      if (signalingSettings.mode === 'RELAY' && !signalingSettings.publicFallback) {
+        setStatus('LAN relay unreachable');
+        setErrorMsg(signalingSettings.relayUrl
+          ? `Could not reach the relay at ${signalingSettings.relayUrl}. Check that it is running and that this phone is on its network.`
+          : 'Enter the LAN relay address first.');
+      } else {
+        setStatus('No signaling server reachable');
+        setErrorMsg(e?.message || '');
+      }
+      return null;
+    }
+  };
+
   // Separated logic for reusability (Reconnection)
-  const connectCloudHost = (code: string) => {
-    setView('HOST_LOBBY'); // Temporary view until connected
+  // Every signaling payload except the bare join/restart pings is sealed with a
+  // key from a SPAKE2 exchange over the room code, so reading or answering an
+  // offer requires knowing the code. ICE candidates trickle on their own topics
+  // as they are gathered instead of waiting for a complete description.
+  // `resume` re-signals from inside a running game: keep the GAME view and state machine as they are
+  const connectCloudHost = async (code: string, resume = false) => {
+    if (!resume) {
+      setView('HOST_LOBBY'); // Temporary view until connected
+      dispatchConnection({ type: 'START', canResignal: true });
+    }
     setStatus(isReconnecting ? 'Reconnecting...' : 'Initializing Host...');
+    connectStartRef.current = performance.now();
 
     const pc = initPC();
     const channel = pc.createDataChannel("chkobba");
     setupDataChannel(channel);
 
-    // Ensure we kill old mqtt client
-    if (mqttClientRef.current) mqttClientRef.current.end();
+    // Keys per joiner share; an answer is only accepted under the keys of the share it came from
+    const pendingJoins = new Map<string, SessionKeys>();
+    // Our candidates so far (null = end of candidates), replayed to every joiner that gets an offer
+    const localCandidates: (RTCIceCandidateInit | null)[] = [];
+    // Joiner candidates that arrived before their answer was applied
+    const remoteCandidates = new Map<string, (RTCIceCandidateInit | null)[]>();
+    let acceptedShare: string | null = null;
+
+    // Sessions saved before room claims existed have no id yet
+    const session = loadSession();
+    const sessionId = session?.id || createId();
+    if (session && !session.id) updateSession({ id: sessionId });
+    let partnerId = session?.partnerId || null;
+    // Ours once published; joins are not answered before that
+    let claim: RoomClaim | null = null;
+    let rivalClaim: RoomClaim | null = null;
+
+    // Sealed under keys agreed with that share, so a stranger on the broker
+    // cannot turn a joiner away; a joiner we never offered to gets a fresh exchange
+    const refuse = async (share: string, keys?: SessionKeys) => {
+      let hostShare: string | undefined;
+      if (!keys) {
+        const exchange = await startSpake2('HOST', code);
+        keys = await exchange.finish(share);
+        hostShare = exchange.share;
+      }
+      const box = await sealBox(keys.signalingKey, 'full', 'full');
+      signalingRef.current?.publish('full', JSON.stringify({ to: share, share: hostShare, box }));
+    };
 
-    const client = mqtt.connect(BROKER_URL);
-    mqttClientRef.current = client;
+    // Another host has this code. A fresh lobby just draws another one; a
+    // running session cannot change its code under the partner
+    const giveUpRoom = () => {
+      signalingRef.current?.close();
+      signalingRef.current = null;
+      pc.close();
+      if (!resume && !isReconnecting) {
+        console.log("Room code already hosted, drawing another");
+        startCloudHost();
+      } else {
+        setStatus('Room taken');
+        setErrorMsg('Another host is using this room code. Start a new game.');
+      }
+    };
 
-    client.on('connect', async () => {
-      setStatus('Waiting for player...');
-      client.subscribe(`chkobba/${code}/join`);
-      client.subscribe(`chkobba/${code}/answer`);
-      
-      const offer = await pc.createOffer();
-      await pc.setLocalDescription(offer);
-      
-      // If we are reconnecting (refresh), the other player might be waiting or also refreshing.
-      // Publish "I_AM_HERE" to prompt them to re-join if they are lost
-      if (isReconnecting) {
-         client.publish(`chkobba/${code}/restart`, 'host_back');
+    // Sealing is async; chain publishes so the end marker never overtakes a candidate
+    let publishChain = Promise.resolve();
+    const publishCandidate = (share: string, keys: SessionKeys, candidate: RTCIceCandidateInit | null) => {
+      publishChain = publishChain.then(async () => {
+        const box = await sealBox(keys.signalingKey, encodeCandidate(candidate), 'candidate/host');
+        signalingRef.current?.publish('candidate/host', JSON.stringify({ share, box }));
+      }).catch(e => console.error("Failed to send candidate", e));
+    };
+
+    pc.onicecandidate = (e) => {
+      const candidate = e.candidate ? e.candidate.toJSON() : null;
+      localCandidates.push(candidate);
+      pendingJoins.forEach((keys, share) => publishCandidate(share, keys, candidate));
+    };
+
+    const handleSignal = async (topic: SignalTopic, msg: string) => {
+      if (topic === 'claim') {
+        const other = parseClaim(msg);
+        if (!other || other.id === sessionId) return;
+        if (!claim) rivalClaim = other;
+        else if (claimWins(claim, other)) signalingRef.current?.publish('claim', JSON.stringify(claim), true); // Put ours back
+        else giveUpRoom();
+        return;
       }
-    });
 
-    client.on('message', async (topic: string, message: Buffer) => {
-      const msg = message.toString();
-      
-      if (topic.endsWith('/join') || topic.endsWith('/restart')) {
-        // Player 2 is here or requesting restart, send Offer
-        console.log("Peer detected, sending offer");
-        if (pc.signalingState !== 'stable') {
-             // Reset if we are in a weird state
-             // But usually we just send the local description we already made
-        }
-        const offer = JSON.stringify(pc.localDescription);
-        client.publish(`chkobba/${code}/offer`, offer);
-        setStatus('Sending Offer...');
+      if (topic === 'join') {
+        // Player 2 is here: answer their SPAKE2 share and send the sealed Offer
+        try {
+          const join = JSON.parse(msg);
+          if (typeof join?.share !== 'string' || !claim) return;
+          // Someone already answered this offer: a third device is knocking
+          if (acceptedShare) {
+            await refuse(join.share);
+            return;
+          }
+
+          const exchange = await startSpake2('HOST', code);
+          const keys = await exchange.finish(join.share);
+          const box = await sealBox(keys.signalingKey, JSON.stringify(pc.localDescription), 'offer');
+
+          pendingJoins.set(join.share, keys);
+          signalingRef.current?.publish('offer', JSON.stringify({ share: exchange.share, to: join.share, box }));
+          localCandidates.forEach(c => publishCandidate(join.share, keys, c));
+          console.log("Peer detected, sending sealed offer");
+          setStatus('Sending Offer...');
+        } catch (e) { console.error("Rejected join", e); }
       } 
       
-      if (topic.endsWith('/answer')) {
-        // Received Answer
-        console.log("Received Answer");
+      if (topic === 'answer') {
         try {
-           const answerDesc = JSON.parse(msg);
+           const answer = JSON.parse(msg);
+           const keys = pendingJoins.get(answer?.from);
+           if (!keys) return;
+           // Throws unless the joiner derived the same key, i.e. knows the code
+           const { desc: answerDesc, id: joinerId } = JSON.parse(await openBox(keys.signalingKey, answer.box, 'answer'));
+           console.log("Received Answer");
+           // Knowing the code is not enough once paired: only the partner's device gets back in
+           if ((acceptedShare && acceptedShare !== answer.from) || (partnerId && joinerId !== partnerId)) {
+               console.warn("Refused a joiner that is not our partner");
+               await refuse(answer.from, keys);
+               return;
+           }
            if (pc.signalingState === 'have-local-offer') {
+               activateSessionKeys(keys);
                await pc.setRemoteDescription(answerDesc);
+               acceptedShare = answer.from;
+               if (!partnerId && typeof joinerId === 'string') {
+                 partnerId = joinerId;
+                 updateSession({ partnerId });
+               }
+               (remoteCandidates.get(answer.from) || []).forEach(c => addRemoteCandidate(pc, c));
+               remoteCandidates.clear();
                setStatus('Connecting P2P...');
            }
-        } catch(e) { console.error(e); }
+        } catch(e) {
+           console.warn("Rejected answer", e);
+           setStatus('Ignored a reply with the wrong code');
+        }
       }
-    });
+
+      if (topic === 'candidate/joiner') {
+        try {
+          const { share, box } = JSON.parse(msg);
+          const keys = pendingJoins.get(share);
+          if (!keys) return;
+          const candidate = decodeCandidate(await openBox(keys.signalingKey, box, 'candidate/joiner'));
+          if (acceptedShare === share) {
+            addRemoteCandidate(pc, candidate);
+          } else if (!acceptedShare) {
+            remoteCandidates.set(share, [...(remoteCandidates.get(share) || []), candidate]);
+          }
+        } catch (e) { console.warn("Rejected candidate", e); }
+      }
+    };
+
+    // The offer has to exist before any join can be answered
+    const offer = await pc.createOffer();
+    await pc.setLocalDescription(offer);
+
+    const transport = await openSignaling(code, ['join', 'answer', 'candidate/joiner', 'claim'], handleSignal);
+    if (!transport) return;
+
+    // The broker hands out a retained claim right after subscribing
+    setStatus('Checking room...');
+    await new Promise(resolve => setTimeout(resolve, CLAIM_CHECK_MS));
+    if (signalingRef.current !== transport) return; // Given up or superseded meanwhile
+    if (rivalClaim) {
+      giveUpRoom();
+      return;
+    }
+    claim = createClaim(sessionId, session?.timestamp || Date.now());
+    transport.publish('claim', JSON.stringify(claim), true);
+    setStatus('Waiting for player...');
+
+    // Joins sent before we held the room went unanswered, and after a refresh the
+    // other player might be waiting too. Publish "I_AM_HERE" to prompt a re-join
+    transport.publish('restart', 'host_back');
+  };
+
+  // Lets the code go right away instead of when the claim expires
+  const releaseRoom = () => {
+    signalingRef.current?.publish('claim', '', true);
   };
 
   const joinCloudGame = () => {
-    if (inputCode.length !== 4) return;
-    saveSession('CLOUD', 'JOINER', inputCode);
-    connectCloudJoiner(inputCode);
+    const code = normalizeRoomCode(inputCode);
+    if (!isRoomCode(code)) return;
+    setInputCode(code);
+    saveSession('CLOUD', 'JOINER', code);
+    connectCloudJoiner(code);
   };
 
-  const connectCloudJoiner = (code: string) => {
-    if (view !== 'GAME') setView('JOIN_LOBBY');
+  const connectCloudJoiner = async (code: string, resume = false) => {
+    if (!resume) {
+      if (view !== 'GAME') setView('JOIN_LOBBY');
+      dispatchConnection({ type: 'START', canResignal: true });
+    }
     setStatus(isReconnecting ? 'Reconnecting...' : 'Connecting to Cloud...');
+    connectStartRef.current = performance.now();
     
     const pc = initPC();
-    
-    if (mqttClientRef.current) mqttClientRef.current.end();
-    const client = mqtt.connect(BROKER_URL);
-    mqttClientRef.current = client;
-
-    client.on('connect', () => {
-      setStatus('Looking for room...');
-      client.subscribe(`chkobba/${code}/offer`);
-      client.subscribe(`chkobba/${code}/restart`);
-      
-      // Send JOIN signal
-      client.publish(`chkobba/${code}/join`, 'hello');
-    });
+    const sessionId = loadSession()?.id || createId();
+    let hostSeen = false;
+    let exchange: SpakeExchange | null = null;
+    let keys: SessionKeys | null = null;
+    let remoteReady = false;
+    // Host candidates can outrun the offer: hold the sealed ones until we have
+    // keys, and the opened ones until the offer is applied
+    let sealedCandidates: string[] = [];
+    let openedCandidates: (RTCIceCandidateInit | null)[] = [];
+
+    let publishChain = Promise.resolve();
+    pc.onicecandidate = (e) => {
+      const current = exchange;
+      const currentKeys = keys;
+      if (!current || !currentKeys) return;
+      const candidate = e.candidate ? e.candidate.toJSON() : null;
+      publishChain = publishChain.then(async () => {
+        const box = await sealBox(currentKeys.signalingKey, encodeCandidate(candidate), 'candidate/joiner');
+        signalingRef.current?.publish('candidate/joiner', JSON.stringify({ share: current.share, box }));
+      }).catch(err => console.error("Failed to send candidate", err));
+    };
 
-    client.on('message', async (topic: string, message: Buffer) => {
-      const msg = message.toString();
-      
+    const openHostCandidate = async (box: any) => {
+      if (!keys) return;
+      try {
+        const candidate = decodeCandidate(await openBox(keys.signalingKey, box, 'candidate/host'));
+        if (remoteReady) addRemoteCandidate(pc, candidate);
+        else openedCandidates.push(candidate);
+      } catch (e) { console.warn("Rejected candidate", e); }
+    };
+
+    // A fresh SPAKE2 share for every join attempt
+    const sendJoin = async () => {
+      keys = null;
+      sealedCandidates = [];
+      openedCandidates = [];
+      exchange = await startSpake2('JOINER', code);
+      signalingRef.current?.publish('join', JSON.stringify({ share: exchange.share }));
+    };
+
+    const handleSignal = async (topic: SignalTopic, msg: string) => {
       // If Host restarts, they send 'restart', we should send 'join' again
-      if (topic.endsWith('/restart')) {
-          client.publish(`chkobba/${code}/join`, 'hello_again');
+      if (topic === 'restart') {
+          sendJoin();
+          return;
+      }
+
+      if (topic === 'claim') {
+        if (parseClaim(msg)) hostSeen = true;
+        return;
+      }
+
+      if (topic === 'full') {
+        const current = exchange;
+        try {
+          const full = JSON.parse(msg);
+          if (!current || full?.to !== current.share) return;
+          // Only a refusal sealed by someone who knows the code ends the join
+          const fullKeys = keys || await current.finish(full.share);
+          await openBox(fullKeys.signalingKey, full.box, 'full');
+        } catch (e) {
+          console.warn("Ignored a refusal that is not from the host", e);
           return;
+        }
+        if (current !== exchange) return; // A newer attempt is under way
+        signalingRef.current?.close();
+        signalingRef.current = null;
+        pc.close();
+        setStatus('Room is full');
+        setErrorMsg('This room is already paired with another phone. Check the code, or ask the host to start a new game.');
+        return;
+      }
+
+      if (topic === 'candidate/host') {
+        try {
+          const { share, box } = JSON.parse(msg);
+          if (!exchange || share !== exchange.share) return;
+          if (keys) openHostCandidate(box);
+          else sealedCandidates.push(box);
+        } catch (e) {}
+        return;
       }
 
-      if (topic.endsWith('/offer')) {
+      if (topic === 'offer') {
+        const current = exchange;
+        let offerKeys: SessionKeys;
+        let offerDesc: RTCSessionDescriptionInit;
+        try {
+          const offer = JSON.parse(msg);
+          // Offers for other joiners (or older attempts) are not ours
+          if (!current || offer?.to !== current.share || keys) return;
+          offerKeys = await current.finish(offer.share);
+          offerDesc = JSON.parse(await openBox(offerKeys.signalingKey, offer.box, 'offer'));
+        } catch (e) {
+          console.warn("Rejected offer", e);
+          setStatus('Room found, but the code does not match');
+          return;
+        }
+
         console.log("Received Offer");
         setStatus('Found Host. Processing...');
-        const offerDesc = JSON.parse(msg);
-        
-        // Handle race conditions on refresh
-        if (pc.signalingState !== 'stable') {
-             // If we already set remote, we might need to reset or ignore.
-             // For simplicity, we just proceed as initPC created a fresh one.
-        }
+        keys = offerKeys;
+        sealedCandidates.forEach(openHostCandidate);
+        sealedCandidates = [];
 
+        activateSessionKeys(offerKeys);
         await pc.setRemoteDescription(offerDesc);
+        remoteReady = true;
+        openedCandidates.forEach(c => addRemoteCandidate(pc, c));
+        openedCandidates = [];
+
         const answer = await pc.createAnswer();
+        const box = await sealBox(offerKeys.signalingKey, JSON.stringify({ desc: answer, id: sessionId }), 'answer');
+        signalingRef.current?.publish('answer', JSON.stringify({ from: current.share, box }));
+        // Candidates start flowing (via onicecandidate) once the answer is applied locally
         await pc.setLocalDescription(answer);
-        
-        // Wait for ICE gathering to ensure robust connection (especially mobile)
-        setTimeout(() => {
-           const answerString = JSON.stringify(pc.localDescription);
-           client.publish(`chkobba/${code}/answer`, answerString);
-           setStatus('Connecting P2P...');
-        }, 1000);
+        setStatus('Connecting P2P...');
       }
-    });
+    };
+
+    const transport = await openSignaling(code, ['offer', 'restart', 'candidate/host', 'claim', 'full'], handleSignal);
+    if (!transport) return;
+    setStatus('Looking for room...');
+
+    // A hosted room has a retained claim; without one, tell the user what we are waiting for
+    setTimeout(() => {
+      if (!hostSeen && !keys && signalingRef.current === transport) setStatus('Nobody is hosting this code yet. Waiting...');
+    }, CLAIM_CHECK_MS * 2);
+
+    // Send JOIN signal
+    sendJoin();
+  };
+
+  // --- RECOVERY (ICE restart, then full re-signaling) ---
+
+  const waitForIceGathering = (pc: RTCPeerConnection) => new Promise<void>(resolve => {
+    if (pc.iceGatheringState === 'complete') return resolve();
+    const timer = setTimeout(done, ICE_GATHER_TIMEOUT_MS);
+    function done() {
+      clearTimeout(timer);
+      pc.removeEventListener('icegatheringstatechange', check);
+      resolve();
+    }
+    function check() {
+      if (pc.iceGatheringState === 'complete') done();
+    }
+    pc.addEventListener('icegatheringstatechange', check);
+  });
+
+  // Restarts ICE on the existing RTCPeerConnection, so the data channel, keys and
+  // DTLS session survive. The restart offer/answer go over signaling sealed with
+  // the keys agreed at pairing. The host offers, the joiner answers.
+  const restartIce = async () => {
+    const session = loadSession();
+    const pc = pcRef.current;
+    const keys = sessionKeysRef.current;
+    if (!session || session.mode !== 'CLOUD' || !pc || !keys) {
+      dispatchConnection({ type: 'TIMEOUT' });
+      return;
+    }
+
+    if (session.role === 'HOST') {
+      let answered = false;
+      const transport = await openSignaling(session.code, ['ice-answer'], async (_topic, msg) => {
+        if (answered) return;
+        try {
+          const desc = JSON.parse(await openBox(keys.signalingKey, JSON.parse(msg), 'ice-answer'));
+          if (pc.signalingState !== 'have-local-offer') return;
+          answered = true;
+          await pc.setRemoteDescription(desc);
+        } catch (e) { console.warn("Rejected ICE restart answer", e); }
+      });
+      if (!transport) return;
+
+      await pc.setLocalDescription(await pc.createOffer({ iceRestart: true }));
+      await waitForIceGathering(pc);
+      const box = JSON.stringify(await sealBox(keys.signalingKey, JSON.stringify(pc.localDescription), 'ice-offer'));
+
+      // The joiner may notice the outage later than we did; keep offering
+      transport.publish('ice-offer', box);
+      const timer = setInterval(() => { if (!answered) transport.publish('ice-offer', box); }, ICE_REOFFER_MS);
+      stopIceRestartRef.current = () => clearInterval(timer);
+    } else {
+      let answeredSdp = '';
+      await openSignaling(session.code, ['ice-offer'], async (_topic, msg) => {
+        try {
+          const desc = JSON.parse(await openBox(keys.signalingKey, JSON.parse(msg), 'ice-offer'));
+          if (desc.sdp === answeredSdp) return; // Re-sent copy of an offer we already answered
+          answeredSdp = desc.sdp;
+          await pc.setRemoteDescription(desc);
+          await pc.setLocalDescription(await pc.createAnswer());
+          await waitForIceGathering(pc);
+          const box = await sealBox(keys.signalingKey, JSON.stringify(pc.localDescription), 'ice-answer');
+          signalingRef.current?.publish('ice-answer', JSON.stringify(box));
+        } catch (e) { console.warn("Rejected ICE restart offer", e); }
+      });
+    }
   };
 
-  // --- MANUAL MODE (Offline Long Codes) ---
+  // Full re-signaling: fresh RTCPeerConnection and SPAKE2 exchange, same room
+  const resignal = () => {
+    const session = loadSession();
+    if (!session || session.mode !== 'CLOUD') return;
+    if (session.role === 'HOST') connectCloudHost(session.code, true);
+    else connectCloudJoiner(session.code, true);
+  };
+
+  // --- MANUAL MODE (Offline Pairing Codes) ---
+
+  // Accepts the old LZ-compressed JSON codes too, so a partner still running a
+  // cached older build can pair with us
+  const parsePairingCode = (code: string): RTCSessionDescriptionInit => {
+    try {
+      return decodeDescription(code);
+    } catch (e) {
+      const legacy = LZString.decompressFromBase64(code.trim());
+      if (legacy) {
+        try {
+          return JSON.parse(legacy);
+        } catch (_) { /* Not a legacy code either */ }
+      }
+      throw e;
+    }
+  };
 
   const startManualHost = async () => {
     setView('MANUAL_HOST');
     saveSession('MANUAL', 'HOST', 'manual');
+    dispatchConnection({ type: 'START', canResignal: false });
     setStatus('Generating Code...');
     const pc = initPC();
     const channel = pc.createDataChannel("chkobba");
     setupDataChannel(channel);
 
     pc.onicecandidate = (e) => {
-      if (e.candidate === null) {
-        const sdp = JSON.stringify(pc.localDescription);
-        const compressed = LZString.compressToBase64(sdp);
-        setLocalOffer(compressed);
+      if (e.candidate === null && pc.localDescription) {
+        setLocalOffer(encodeDescription(pc.localDescription));
         setStatus('Ready');
       }
     };
@@ -434,39 +1664,40 @@ export default function App() {
   const handleManualHostConnect = async () => {
     try {
       if (!pcRef.current || !remoteAnswer) return;
-      const desc = JSON.parse(LZString.decompressFromBase64(remoteAnswer));
+      setErrorMsg('');
+      const desc = parsePairingCode(remoteAnswer);
       await pcRef.current.setRemoteDescription(desc);
       setStatus('Connecting...');
-    } catch (e) {
-      setErrorMsg("Invalid Answer Code");
+    } catch (e: any) {
+      setErrorMsg(e?.message?.startsWith('Invalid pairing code') ? e.message : "Invalid Answer Code");
     }
   };
 
   const startManualJoin = () => {
     setView('MANUAL_JOIN');
     saveSession('MANUAL', 'JOINER', 'manual');
+    dispatchConnection({ type: 'START', canResignal: false });
     setRemoteAnswer(''); // Used as Offer input here
   };
 
   const handleManualJoinGenerate = async () => {
     try {
+      setErrorMsg('');
+      const offerDesc = parsePairingCode(remoteAnswer);
       const pc = initPC();
-      const offerDesc = JSON.parse(LZString.decompressFromBase64(remoteAnswer));
       await pc.setRemoteDescription(offerDesc);
       
       pc.onicecandidate = (e) => {
-        if (e.candidate === null) {
-           const sdp = JSON.stringify(pc.localDescription);
-           const compressed = LZString.compressToBase64(sdp);
-           setLocalOffer(compressed); // Display this as the Answer
+        if (e.candidate === null && pc.localDescription) {
+           setLocalOffer(encodeDescription(pc.localDescription)); // Display this as the Answer
            setStatus('Reply Generated');
         }
       };
       
       const answer = await pc.createAnswer();
       await pc.setLocalDescription(answer);
-    } catch (e) {
-      setErrorMsg("Invalid Host Code");
+    } catch (e: any) {
+      setErrorMsg(e?.message?.startsWith('Invalid pairing code') ? e.message : "Invalid Host Code");
     }
   };
 
@@ -492,17 +1723,49 @@ export default function App() {
           
           <div className="flex gap-2">
             <input 
-               type="tel" 
-               maxLength={4}
-               placeholder="0000"
+               type="text" 
+               autoCapitalize="none"
+               autoCorrect="off"
+               spellCheck={false}
+               placeholder="tiger olive lamp"
                value={inputCode}
                onChange={e => setInputCode(e.target.value)}
-               className="w-24 text-center bg-slate-950 border border-slate-700 rounded-xl text-xl font-mono tracking-widest focus:border-blue-500 outline-none"
+               className="flex-1 min-w-0 px-3 py-3 bg-slate-950 border border-slate-700 rounded-xl font-mono focus:border-blue-500 outline-none"
             />
-            <button onClick={joinCloudGame} disabled={inputCode.length !== 4} className="flex-1 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 rounded-xl font-bold">
+            <button onClick={joinCloudGame} disabled={!isRoomCode(normalizeRoomCode(inputCode))} className="px-5 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 rounded-xl font-bold">
                Join Game
             </button>
           </div>
+
+          {/* Signaling Route (both players must pick the same one) */}
+          <div className="pt-2 space-y-2">
+            <div className="grid grid-cols-3 gap-1 text-[10px] font-bold uppercase">
+              {SIGNALING_OPTIONS.map(opt => (
+                <button
+                  key={opt.mode}
+                  onClick={() => updateSignaling({ mode: opt.mode })}
+                  className={`py-1.5 rounded-lg border ${signalingSettings.mode === opt.mode ? 'border-blue-500 text-blue-400 bg-blue-900/20' : 'border-slate-800 text-slate-500'}`}
+                >
+                  {opt.label}
+                </button>
+              ))}
+            </div>
+            {signalingSettings.mode === 'RELAY' && (
+              <input
+                type="url"
+                placeholder="ws://192.168.1.10:8787"
+                value={signalingSettings.relayUrl}
+                onChange={e => updateSignaling({ relayUrl: e.target.value.trim() })}
+                className="w-full px-3 py-2 bg-slate-950 border border-slate-700 rounded-lg text-xs font-mono focus:border-blue-500 outline-none"
+              />
+            )}
+            {signalingSettings.mode === 'RELAY' && (
+              <label className="flex items-center justify-between gap-2 text-[11px] text-slate-500">
+                Use the public servers if the relay is down (both phones need internet then)
+                <input type="checkbox" checked={signalingSettings.publicFallback} onChange={() => updateSignaling({ publicFallback: !signalingSettings.publicFallback })} className="w-4 h-4 shrink-0" />
+              </label>
+            )}
+          </div>
         </div>
 
         {/* Offline Fallback */}
@@ -517,22 +1780,33 @@ export default function App() {
              </button>
            </div>
         </div>
+
+        <button onClick={() => setShowRecordings(true)} className="w-full text-xs text-slate-500 hover:text-slate-300 flex items-center justify-center gap-1">
+          <Disc size={12} /> Recorded games
+        </button>
       </div>
+
+      {showRecordings && <RecordingsPanel enabled={recordingEnabled} activeId={recordingId} onToggle={toggleRecording} onClose={() => setShowRecordings(false)} />}
     </div>
   );
 
   // --- Views ---
 
+  // Unmounts the real UI entirely, so nothing is left behind the decoy
+  if (panicHidden) return <DecoyCalculator pin={panicSettings.pin} recovery={panicSettings.recovery} onUnlock={unlockPanic} />;
+
   if (view === 'HOST_LOBBY' || view === 'JOIN_LOBBY') {
     return (
       <div className="min-h-screen bg-slate-950 flex flex-col items-center justify-center p-8 text-center space-y-8">
-         <button onClick={() => { clearSession(); window.location.reload(); }} className="absolute top-6 left-6 text-slate-500"><ArrowLeft/></button>
+         <button onClick={() => { if (view === 'HOST_LOBBY') releaseRoom(); clearSession(); window.location.reload(); }} className="absolute top-6 left-6 text-slate-500"><ArrowLeft/></button>
          <div>
            {view === 'HOST_LOBBY' ? (
              <>
                <h2 className="text-slate-400 text-sm uppercase tracking-widest mb-2">Your Room Code</h2>
-               <div className="text-6xl font-mono font-bold text-white tracking-widest">{shortCode}</div>
-               <div className="text-xs text-slate-600 max-w-xs mt-4">Tell your partner to enter this number</div>
+               <div className="text-4xl font-mono font-bold text-white space-y-1">
+                 {shortCode.split('-').map((word, i) => <div key={i}>{word}</div>)}
+               </div>
+               <div className="text-xs text-slate-600 max-w-xs mt-4">Tell your partner to enter these three words</div>
              </>
            ) : (
              <h2 className="text-xl font-bold text-white">Joining Room {inputCode}...</h2>
@@ -542,6 +1816,12 @@ export default function App() {
             <RefreshCw className="animate-spin" size={16} /> 
             <span>{status}</span>
          </div>
+         <p className="text-xs text-slate-600 font-mono">
+           {connectElapsed > 0 && `${(connectElapsed / 1000).toFixed(1)}s`}
+           {signalingLabel && ` via ${signalingLabel}`}
+           {lastConnectMs !== null && ` · last connect ${(lastConnectMs / 1000).toFixed(1)}s`}
+         </p>
+         {errorMsg && <p className="text-xs text-red-500 max-w-xs">{errorMsg}</p>}
          {isReconnecting && <p className="text-xs text-yellow-500">Restoring previous session...</p>}
       </div>
     );
@@ -556,7 +1836,8 @@ export default function App() {
          <h2 className="text-xl font-bold text-blue-400">1. Share This Code</h2>
          
          <div className="w-full max-w-sm">
-            <textarea readOnly value={localOffer || "Generating..."} className="w-full h-24 bg-slate-900 p-2 text-[10px] text-slate-500 rounded border border-slate-800 mb-2 resize-none" />
+            {localOffer && <QrCode text={localOffer} className="w-full max-w-[16rem] mx-auto mb-3 rounded-lg" />}
+            <textarea readOnly value={localOffer || "Generating..."} className="w-full h-20 bg-slate-900 p-2 text-sm font-mono text-slate-400 rounded border border-slate-800 mb-2 resize-none" />
             <button onClick={() => copyToClipboard(localOffer)} className="w-full py-3 bg-slate-800 rounded-xl font-bold flex items-center justify-center gap-2">
                {copied ? <Check size={16} className="text-green-500"/> : <Copy size={16}/>} Copy Code
             </button>
@@ -564,13 +1845,8 @@ export default function App() {
 
          <div className="w-full max-w-sm pt-6 border-t border-slate-800">
             <h2 className="text-xl font-bold text-green-400 mb-4">2. Enter Reply Code</h2>
-            <textarea 
-               value={remoteAnswer} 
-               onChange={e => setRemoteAnswer(e.target.value)}
-               placeholder="Paste partner's code here..."
-               className="w-full h-24 bg-slate-900 p-2 text-[10px] text-slate-200 rounded border border-slate-700 mb-2 resize-none focus:border-blue-500 outline-none" 
-            />
-            <button onClick={handleManualHostConnect} disabled={!remoteAnswer} className="w-full py-3 bg-green-600 hover:bg-green-500 disabled:opacity-50 rounded-xl font-bold">
+            <PairingCodeInput value={remoteAnswer} onChange={setRemoteAnswer} placeholder="Type, paste or scan partner's code..." />
+            <button onClick={handleManualHostConnect} disabled={!remoteAnswer} className="w-full py-3 mt-2 bg-green-600 hover:bg-green-500 disabled:opacity-50 rounded-xl font-bold">
                Connect
             </button>
             {errorMsg && <p className="text-red-500 text-xs mt-2 text-center">{errorMsg}</p>}
@@ -587,12 +1863,7 @@ export default function App() {
          {!localOffer ? (
            <div className="w-full max-w-sm space-y-4">
               <h2 className="text-xl font-bold text-blue-400">1. Paste Host Code</h2>
-              <textarea 
-                 value={remoteAnswer} 
-                 onChange={e => setRemoteAnswer(e.target.value)}
-                 placeholder="Paste code from Player 1..."
-                 className="w-full h-32 bg-slate-900 p-2 text-[10px] text-slate-200 rounded border border-slate-700 resize-none focus:border-blue-500 outline-none" 
-              />
+              <PairingCodeInput value={remoteAnswer} onChange={setRemoteAnswer} placeholder="Type, paste or scan code from Player 1..." />
               <button onClick={handleManualJoinGenerate} disabled={!remoteAnswer} className="w-full py-3 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 rounded-xl font-bold">
                  Generate Reply
               </button>
@@ -601,11 +1872,12 @@ export default function App() {
          ) : (
            <div className="w-full max-w-sm space-y-4">
               <h2 className="text-xl font-bold text-green-400">2. Share This Reply</h2>
-              <textarea readOnly value={localOffer} className="w-full h-32 bg-slate-900 p-2 text-[10px] text-slate-500 rounded border border-slate-800 resize-none" />
+              <QrCode text={localOffer} className="w-full max-w-[16rem] mx-auto rounded-lg" />
+              <textarea readOnly value={localOffer} className="w-full h-20 bg-slate-900 p-2 text-sm font-mono text-slate-400 rounded border border-slate-800 resize-none" />
               <button onClick={() => copyToClipboard(localOffer)} className="w-full py-3 bg-slate-800 rounded-xl font-bold flex items-center justify-center gap-2">
                  {copied ? <Check size={16} className="text-green-500"/> : <Copy size={16}/>} Copy Reply Code
               </button>
-              <p className="text-center text-xs text-slate-500">Send this back to Player 1</p>
+              <p className="text-center text-xs text-slate-500">Let Player 1 scan it, or send the code back</p>
            </div>
          )}
       </div>
@@ -616,7 +1888,7 @@ export default function App() {
 
   // --- GAME VIEW ---
   return (
-    <div className={`min-h-screen flex flex-col text-slate-200 overflow-hidden fixed inset-0 transition-colors duration-300 ${flash ? 'bg-blue-900/50' : 'bg-slate-950'}`}>
+    <div className={`min-h-screen flex flex-col text-slate-200 overflow-hidden fixed inset-0 transition-colors duration-300 ${flashColor ? '' : 'bg-slate-950'}`} style={flashColor ? { backgroundColor: `${flashColor}80` } : undefined}>
       <header className="absolute top-0 left-0 right-0 z-40 bg-slate-900/80 backdrop-blur-md border-b border-slate-800 px-3 py-2 shadow-md">
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-3">
@@ -626,19 +1898,30 @@ export default function App() {
             <div className="flex flex-col leading-tight">
               <span className="text-[10px] text-slate-500 font-mono">CHKOBBA SIGNAL</span>
               <div className="flex items-center gap-1">
-                 {status.includes('Connected') ? (
-                    <span className="text-xs font-bold tracking-wider text-green-400">CONNECTED</span>
+                 {connection.phase === 'CONNECTED' ? (
+                    <span className="text-xs font-bold tracking-wider text-green-400" title="Time to connect">
+                      CONNECTED{lastConnectMs !== null && <span className="font-mono font-normal text-slate-500"> {(lastConnectMs / 1000).toFixed(1)}s</span>}
+                    </span>
                  ) : (
-                    <span className="text-xs font-bold tracking-wider text-yellow-500 animate-pulse">RECONNECTING...</span>
+                    <span className={`text-xs font-bold tracking-wider ${connection.phase === 'FAILED' ? 'text-red-500' : 'text-yellow-500 animate-pulse'}`}>
+                      {connection.phase === 'FAILED' ? 'DISCONNECTED' : 'RECONNECTING...'}
+                    </span>
                  )}
                  {wakeLockActive && <div title="Screen Wake Lock Active"><Lock size={10} className="text-blue-400" /></div>}
+                 {e2eActive && <div title="End-to-end encrypted with the room code"><ShieldCheck size={10} className="text-green-400" /></div>}
               </div>
             </div>
           </div>
 
           <div className="flex items-center gap-3 sm:gap-4">
             <button onClick={triggerPing} className="p-2 text-yellow-500 bg-yellow-900/20 hover:bg-yellow-900/40 rounded-full transition-colors flex items-center gap-2 border border-yellow-900/30">
-              <Bell size={20} className={flash ? 'animate-bounce' : ''} />
+              <Bell size={20} className={flashColor ? 'animate-bounce' : ''} />
+            </button>
+            <button onClick={() => setShowPalette(v => !v)} title="Quick signals" className={`p-2 rounded-full transition-colors ${showPalette ? 'text-blue-400 bg-blue-900/20' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}>
+              <Zap size={20} />
+            </button>
+            <button onClick={() => triggerPanic()} title="Hide on both phones" className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-full transition-colors">
+              <EyeOff size={20} />
             </button>
             <button onClick={clearBoard} className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-full transition-colors">
               <Trash2 size={20} />
@@ -650,9 +1933,192 @@ export default function App() {
         </div>
       </header>
 
-      <main className="w-full h-full pt-14 pb-0">
-         <DrawingBoard strokes={strokes} onStrokeComplete={handleStrokeComplete} color="#3b82f6" />
+      {connection.phase !== 'CONNECTED' && connection.phase !== 'IDLE' && (
+        <div className={`absolute top-14 left-0 right-0 z-40 border-b px-3 py-2 flex items-center gap-2 text-xs ${connection.phase === 'FAILED' ? 'bg-red-950/90 border-red-800 text-red-200' : 'bg-yellow-950/90 border-yellow-800 text-yellow-200'}`}>
+          {connection.phase === 'FAILED'
+            ? <WifiOff size={14} className="text-red-400 shrink-0" />
+            : <RefreshCw size={14} className="animate-spin text-yellow-400 shrink-0" />}
+          <span className="flex-1">{describePhase(connection)}</span>
+          {connection.phase === 'FAILED' && connection.canResignal && (
+            <button onClick={() => dispatchConnection({ type: 'RETRY' })} className="px-2 py-1 rounded border border-red-700 text-red-200 hover:bg-red-900/50">
+              Retry
+            </button>
+          )}
+        </div>
+      )}
+
+      {protocolWarning && (
+        <div className="absolute top-14 left-0 right-0 z-40 bg-red-950/90 border-b border-red-800 px-3 py-2 flex items-center gap-2 text-xs text-red-200">
+          <AlertTriangle size={14} className="text-red-400 shrink-0" />
+          <span className="flex-1">{protocolWarning}</span>
+          <button onClick={() => setProtocolWarning('')} className="p-1 text-red-400 hover:text-white">
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
+      {rankBadge && <RankBadge rank={rankBadge.rank} fromPartner={rankBadge.fromPartner} onDismiss={() => setRankBadge(null)} />}
+
+      {showPanicSettings && <PanicSettingsPanel settings={panicSettings} onChange={updatePanicSettings} onClose={() => setShowPanicSettings(false)} />}
+
+      {signalBanner && <SignalBanner label={signalBanner.label} color={signalBanner.color} onDismiss={() => setSignalBanner(null)} />}
+
+      {showSignalSettings && <QuickSignalSettings signals={quickSignals} onChange={updateQuickSignals} onClose={() => setShowSignalSettings(false)} />}
+
+      {showSignalLog && <SignalLog entries={signalLog} onClear={clearLog} onClose={() => setShowSignalLog(false)} />}
+
+      {showRecordings && <RecordingsPanel enabled={recordingEnabled} activeId={recordingId} onToggle={toggleRecording} onClose={() => setShowRecordings(false)} />}
+
+      {showBoardFile && <BoardFilePanel strokes={exportableStrokes(strokes, clockOffset)} onImport={importBoard} onClose={() => setShowBoardFile(false)} />}
+
+      {pulse && (
+        <div className="absolute bottom-24 right-4 z-30">
+          <HapticPulse key={pulse.at} pattern={pulse.pattern} code={pulse.code} onDone={() => setPulse(null)} />
+        </div>
+      )}
+
+      {showHapticSettings && (
+        <HapticSettingsPanel
+          settings={hapticSettings}
+          onChange={updateHapticSettings}
+          onPractice={() => setShowHapticPractice(true)}
+          onClose={() => setShowHapticSettings(false)}
+        />
+      )}
+
+      {showHapticPractice && <HapticPractice settings={hapticSettings} onClose={() => setShowHapticPractice(false)} />}
+
+      {showTrainer && <HandwritingTrainer templates={userTemplates} onChange={updateTemplates} onClose={() => setShowTrainer(false)} />}
+
+      <main className="w-full flex-1 min-h-0 pt-14 pb-0 flex flex-col md:flex-row">
+         <div className={`${activeTab === 'BOARD' ? 'flex' : 'hidden'} md:flex flex-1 min-h-0 min-w-0 relative`}>
+           <DrawingBoard
+             strokes={strokes}
+             liveStrokes={liveStrokeList}
+             onStrokeComplete={handleStrokeComplete}
+             onStrokeProgress={handleStrokeProgress}
+             onStrokeCancel={handleStrokeCancel}
+             brush={styleFor(tool, brush)}
+             tool={tool}
+             onErase={eraseStroke}
+             clockOffset={clockOffset}
+             holdToKeep={inkSettings.holdToKeep}
+           />
+
+           {showBrushPalette && tool !== 'ERASER' && (
+             <div className="absolute top-2 left-14 z-10">
+               <BrushPalette brush={brush} tool={tool} onChange={updateBrush} />
+             </div>
+           )}
+
+           {/* Board Tools */}
+           <div className="absolute top-2 left-2 z-10 flex flex-col gap-1 bg-slate-900/80 border border-slate-800 rounded-lg p-1">
+             <button onClick={() => setTool('PEN')} title="Pen" className={`p-2 rounded ${tool === 'PEN' ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}>
+               <PenLine size={18} />
+             </button>
+             <button onClick={() => setTool('HIGHLIGHTER')} title="Highlighter" className={`p-2 rounded ${tool === 'HIGHLIGHTER' ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}>
+               <Highlighter size={18} />
+             </button>
+             <button onClick={() => { setTool('STAMP'); setShowBrushPalette(true); }} title="Stamps: circle, cross, arrow, suits" className={`p-2 rounded ${tool === 'STAMP' ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}>
+               <Stamp size={18} />
+             </button>
+             <button onClick={() => setShowBrushPalette(v => !v)} title="Colour and width" className={`p-2 rounded flex items-center justify-center ${showBrushPalette ? 'bg-slate-700' : ''}`}>
+               <span className="w-[18px] h-[18px] rounded-full border-2 border-slate-900 ring-1 ring-slate-500" style={{ backgroundColor: brush.color }} />
+             </button>
+             <button onClick={() => setTool('ERASER')} title="Erase a stroke" className={`p-2 rounded ${tool === 'ERASER' ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}>
+               <Eraser size={18} />
+             </button>
+             <button onClick={undo} disabled={undoStack.length === 0} title="Undo my last stroke" className="p-2 rounded text-slate-400 hover:text-white disabled:opacity-30 disabled:hover:text-slate-400">
+               <Undo2 size={18} />
+             </button>
+             <button onClick={redo} disabled={redoStack.length === 0} title="Redo" className="p-2 rounded text-slate-400 hover:text-white disabled:opacity-30 disabled:hover:text-slate-400">
+               <Redo2 size={18} />
+             </button>
+             <button onClick={cycleInkTtl} title="Fading ink: my strokes vanish after a while on both phones" className={`p-2 rounded flex flex-col items-center ${inkSettings.ttl ? 'bg-amber-600 text-white' : 'text-slate-400 hover:text-white'}`}>
+               {inkSettings.ttl ? <Timer size={18} /> : <TimerOff size={18} />}
+               {inkSettings.ttl && <span className="text-[9px] font-mono leading-none">{inkSettings.ttl / 1000}s</span>}
+             </button>
+             <button onClick={() => updateInk({ holdToKeep: !inkSettings.holdToKeep })} title="Hold a partner's fading stroke to keep it" className={`p-2 rounded ${inkSettings.holdToKeep ? 'text-amber-400' : 'text-slate-600 hover:text-white'}`}>
+               <Hand size={18} />
+             </button>
+             <button onClick={() => setShowPanicSettings(true)} title="Panic hide settings" className="p-2 rounded text-slate-400 hover:text-white">
+               <Settings2 size={18} />
+             </button>
+             <button onClick={() => setShowTrainer(true)} title="Teach my handwriting" className="p-2 rounded text-slate-400 hover:text-white">
+               <GraduationCap size={18} />
+             </button>
+             <button onClick={() => setShowHapticSettings(true)} title="Haptic codes for cards and ranks" className={`p-2 rounded ${hapticSettings.enabled ? 'text-blue-400' : 'text-slate-400 hover:text-white'}`}>
+               <Vibrate size={18} />
+             </button>
+             <button onClick={() => setShowBoardFile(true)} title="Export or import the board" className="p-2 rounded text-slate-400 hover:text-white">
+               <FileImage size={18} />
+             </button>
+             <button onClick={() => setShowRecordings(true)} title="Record and replay games" className={`p-2 rounded ${recordingId ? 'text-red-500 animate-pulse' : 'text-slate-400 hover:text-white'}`}>
+               <Disc size={18} />
+             </button>
+           </div>
+         </div>
+
+         <aside className={`${activeTab === 'BOARD' ? 'hidden' : 'flex'} md:flex flex-col flex-1 md:flex-none md:w-[28rem] lg:w-[36rem] min-h-0 md:border-l border-slate-800 bg-slate-950`}>
+           {/* Phones switch with the tabs below */}
+           <div className="hidden md:flex border-b border-slate-800">
+             <button onClick={() => setActiveTab('CARDS')} className={`flex-1 py-2 flex items-center justify-center gap-2 text-xs font-bold ${activeTab !== 'SCORE' ? 'text-blue-400' : 'text-slate-500'}`}>
+               <LayoutGrid size={14} /> CARDS
+             </button>
+             <button onClick={() => setActiveTab('SCORE')} className={`flex-1 py-2 flex items-center justify-center gap-2 text-xs font-bold ${activeTab === 'SCORE' ? 'text-blue-400' : 'text-slate-500'}`}>
+               <Trophy size={14} /> SCORE
+             </button>
+           </div>
+           <div className="flex-1 min-h-0">
+             {activeTab === 'SCORE' ? (
+               <Scoreboard
+                 score={board.score}
+                 canUndo={scoreUndoStack.length > 0}
+                 onSaveRound={saveRound}
+                 onRemoveRound={removeRound}
+                 onUndo={undoScore}
+                 onTargetChange={setMatchTarget}
+                 onNewMatch={newMatch}
+               />
+             ) : (
+               <CardTracker
+                 marks={cardMarks}
+                 handsDealt={board.handsDealt}
+                 shakingCardId={shakingCardId}
+                 onToggleSelect={toggleCardSelect}
+                 onToggleCross={toggleCardCross}
+                 onToggleCircle={toggleCardCircle}
+                 onSignal={signalCard}
+                 onSetFate={setCardFate}
+                 onHandsDealtChange={setHandsDealt}
+                 onReset={resetTracker}
+               />
+             )}
+           </div>
+         </aside>
+
+         {/* Phone Tabs */}
+         <nav className="md:hidden flex border-t border-slate-800 bg-slate-900/80">
+           <button onClick={() => setActiveTab('BOARD')} className={`flex-1 py-2 flex items-center justify-center gap-2 text-xs font-bold ${activeTab === 'BOARD' ? 'text-blue-400' : 'text-slate-500'}`}>
+             <PenLine size={14} /> BOARD
+           </button>
+           <button onClick={() => setActiveTab('CARDS')} className={`flex-1 py-2 flex items-center justify-center gap-2 text-xs font-bold ${activeTab === 'CARDS' ? 'text-blue-400' : 'text-slate-500'}`}>
+             <LayoutGrid size={14} /> CARDS
+           </button>
+           <button onClick={() => setActiveTab('SCORE')} className={`flex-1 py-2 flex items-center justify-center gap-2 text-xs font-bold ${activeTab === 'SCORE' ? 'text-blue-400' : 'text-slate-500'}`}>
+             <Trophy size={14} /> SCORE
+           </button>
+         </nav>
       </main>
+
+      {showPalette && (
+        <QuickSignalPalette
+          signals={quickSignals}
+          onSend={sendQuickSignal}
+          onEdit={() => setShowSignalSettings(true)}
+          onShowLog={() => setShowSignalLog(true)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,119 @@
+import React, { useRef, useState } from 'react';
+import { Stroke } from '../types';
+import { BOARD_HEIGHT, BOARD_WIDTH } from '../services/geometry';
+import { PNG_SCALES, boardJson, boardPng, boardSvg, parseBoardFile } from '../services/boardFile';
+import { downloadFile, fileStamp } from '../services/files';
+import { X, FileImage, Download, Upload } from 'lucide-react';
+
+interface BoardFilePanelProps {
+  strokes: Stroke[]; // What to export, fading ink already settled
+  onImport: (strokes: Stroke[], replace: boolean) => void;
+  onClose: () => void;
+}
+
+// Saves the board as a picture or snapshot, and puts a saved one back on both phones
+export const BoardFilePanel: React.FC<BoardFilePanelProps> = ({ strokes, onImport, onClose }) => {
+  const [scale, setScale] = useState(PNG_SCALES[1]);
+  const [replace, setReplace] = useState(true);
+  const [error, setError] = useState('');
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const name = (ext: string) => `chkobba-board-${fileStamp(Date.now())}.${ext}`;
+
+  const exportPng = async () => {
+    try {
+      downloadFile(name('png'), await boardPng(strokes, scale));
+    } catch (e: any) {
+      setError(e?.message || 'Could not export the picture.');
+    }
+  };
+
+  const importFile = async (file: File) => {
+    setError('');
+    try {
+      const imported = parseBoardFile(await file.text());
+      if (imported.length === 0) throw new Error('The file has no strokes.');
+      onImport(imported, replace);
+      onClose();
+    } catch (e: any) {
+      setError(e?.message || 'Could not import the board.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/95 flex flex-col p-4 gap-4 overflow-y-auto">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-bold text-white flex items-center gap-2"><FileImage size={18} /> Board File</h2>
+        <button onClick={onClose} className="p-2 text-slate-400 hover:text-white">
+          <X size={20} />
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-xs font-bold text-slate-300 uppercase tracking-wider">Export</h3>
+        <p className="text-xs text-slate-400">
+          {strokes.length} strokes, yours and your partner's. Partner strokes keep the ring they have on the board.
+        </p>
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={() => downloadFile(name('svg'), new Blob([boardSvg(strokes)], { type: 'image/svg+xml' }))}
+            disabled={strokes.length === 0}
+            className="py-2 rounded-xl bg-blue-600 text-white font-bold text-sm flex items-center justify-center gap-2 disabled:opacity-40"
+          >
+            <Download size={14} /> SVG
+          </button>
+          <button
+            onClick={() => downloadFile(name('json'), new Blob([boardJson(strokes)], { type: 'application/json' }))}
+            disabled={strokes.length === 0}
+            className="py-2 rounded-xl bg-slate-800 text-slate-200 font-bold text-sm flex items-center justify-center gap-2 disabled:opacity-40"
+          >
+            <Download size={14} /> JSON
+          </button>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex gap-1 flex-1">
+            {PNG_SCALES.map(s => (
+              <button
+                key={s}
+                onClick={() => setScale(s)}
+                className={`flex-1 px-2 py-1 rounded text-xs font-mono ${scale === s ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400'}`}
+              >
+                {BOARD_WIDTH * s}×{BOARD_HEIGHT * s}
+              </button>
+            ))}
+          </div>
+          <button onClick={exportPng} disabled={strokes.length === 0} className="px-4 py-2 rounded-xl bg-slate-800 text-slate-200 font-bold text-sm flex items-center gap-2 disabled:opacity-40">
+            <Download size={14} /> PNG
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-xs font-bold text-slate-300 uppercase tracking-wider">Import</h3>
+        <p className="text-xs text-slate-400">
+          A JSON or SVG exported here. It appears on both phones, and strokes keep who drew them: your partner's come back ringed. You sent them all, so undo takes any of them back one by one.
+        </p>
+        <label className="flex items-center justify-between text-sm text-slate-200">
+          Clear the board first
+          <input type="checkbox" checked={replace} onChange={() => setReplace(!replace)} className="w-5 h-5 accent-blue-500" />
+        </label>
+        <button onClick={() => fileRef.current?.click()} className="w-full py-2 rounded-xl bg-slate-900 border border-slate-800 text-slate-300 text-sm flex items-center justify-center gap-2">
+          <Upload size={14} /> Choose a file
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".json,.svg,application/json,image/svg+xml"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = ''; // The same file can be picked again
+            if (file) importFile(file);
+          }}
+        />
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
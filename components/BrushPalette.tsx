@@ -0,0 +1,62 @@
+import React from 'react';
+import { DrawingTool, StampShape, Suit } from '../types';
+import { SuitIcon } from '../constants';
+import { BrushSettings, INK_COLORS, PEN_WIDTHS, STAMPS } from '../services/brush';
+import { Circle, X, ArrowUpRight } from 'lucide-react';
+
+interface BrushPaletteProps {
+  brush: BrushSettings;
+  tool: DrawingTool;
+  onChange: (brush: BrushSettings) => void;
+}
+
+const StampIcon = ({ stamp }: { stamp: StampShape }) => {
+  if (stamp === 'CIRCLE') return <Circle size={18} />;
+  if (stamp === 'CROSS') return <X size={18} />;
+  if (stamp === 'ARROW') return <ArrowUpRight size={18} />;
+  return <SuitIcon suit={stamp as Suit} className="w-[18px] h-[18px]" />;
+};
+
+// Colour, width and stamp for the next strokes; sits next to the board tools
+export const BrushPalette: React.FC<BrushPaletteProps> = ({ brush, tool, onChange }) => (
+  <div className="flex flex-col gap-2 bg-slate-900/95 border border-slate-800 rounded-lg p-2 shadow-xl">
+    <div className="flex gap-1.5">
+      {INK_COLORS.map(color => (
+        <button
+          key={color}
+          onClick={() => onChange({ ...brush, color })}
+          style={{ backgroundColor: color }}
+          className={`w-6 h-6 rounded-full ${brush.color === color ? 'ring-2 ring-white ring-offset-2 ring-offset-slate-900' : ''}`}
+        />
+      ))}
+    </div>
+    {tool !== 'HIGHLIGHTER' && (
+      <div className="flex gap-1">
+        {PEN_WIDTHS.map(width => (
+          <button
+            key={width}
+            onClick={() => onChange({ ...brush, width })}
+            title={`${width}px`}
+            className={`flex-1 h-8 rounded flex items-center justify-center ${brush.width === width ? 'bg-slate-700' : 'hover:bg-slate-800'}`}
+          >
+            <span className="rounded-full" style={{ width: width + 4, height: width + 4, backgroundColor: brush.color }} />
+          </button>
+        ))}
+      </div>
+    )}
+    {tool === 'STAMP' && (
+      <div className="grid grid-cols-4 gap-1">
+        {STAMPS.map(stamp => (
+          <button
+            key={stamp}
+            onClick={() => onChange({ ...brush, stamp })}
+            style={{ color: brush.color }}
+            className={`h-8 rounded flex items-center justify-center ${brush.stamp === stamp ? 'bg-slate-700' : 'hover:bg-slate-800'}`}
+          >
+            <StampIcon stamp={stamp} />
+          </button>
+        ))}
+      </div>
+    )}
+  </div>
+);
@@ -1,5 +1,5 @@
 import React from 'react';
-import { CardData } from '../types';
+import { CardData, CardFate } from '../types';
 import { SuitIcon } from '../constants';
 import { Bell, Circle } from 'lucide-react';
 
@@ -10,12 +10,24 @@ interface CardProps {
   isCrossed: boolean;
   isCircled: boolean;
   isShaking: boolean;
+  fate: CardFate | null;
+  heldByMe: boolean;
+  canTake?: boolean; // In my hand and able to capture from the table
+  onTap?: (id: string) => void; // Replaces the select / fade / circle taps, e.g. while marking fates
   onToggleSelect: (id: string) => void;
   onToggleCross: (id: string) => void;
   onToggleCircle: (id: string) => void;
   onSignal: (id: string) => void;
 }
 
+const FATE_BADGES: Record<CardFate | 'PARTNER_HAND', { label: string; className: string }> = {
+  PLAYED: { label: 'TABLE', className: 'bg-slate-600 text-white' },
+  OURS: { label: 'US', className: 'bg-blue-600 text-white' },
+  THEIRS: { label: 'THEM', className: 'bg-red-600 text-white' },
+  HAND: { label: 'HAND', className: 'bg-purple-600 text-white' },
+  PARTNER_HAND: { label: 'P.HAND', className: 'bg-green-700 text-white' },
+};
+
 export const Card: React.FC<CardProps> = ({
   card,
   isSelectedByMe,
@@ -23,6 +35,10 @@ export const Card: React.FC<CardProps> = ({
   isCrossed,
   isCircled,
   isShaking,
+  fate,
+  heldByMe,
+  canTake,
+  onTap,
   onToggleSelect,
   onToggleCross,
   onToggleCircle,
@@ -34,6 +50,10 @@ export const Card: React.FC<CardProps> = ({
   };
 
   const handleClick = (e: React.MouseEvent) => {
+    if (onTap) {
+      onTap(card.id);
+      return;
+    }
     const detail = e.detail;
 
     // 3 Clicks -> Toggle Transparency (previously Cross)
@@ -52,14 +72,16 @@ export const Card: React.FC<CardProps> = ({
     onToggleSelect(card.id);
   };
 
+  const badge = fate ? FATE_BADGES[fate === 'HAND' && !heldByMe ? 'PARTNER_HAND' : fate] : null;
+
   return (
     <div
       onClick={handleClick}
       className={`
         relative aspect-[3/4] rounded-lg border-2 cursor-pointer transition-all duration-200 select-none
         flex flex-col items-center justify-between p-1 sm:p-2
-        ${isShaking ? 'animate-shake ring-4 ring-yellow-400 z-50' : ''}
-        ${isCrossed ? 'opacity-25 grayscale' : 'opacity-100'}
+        ${isShaking ? 'animate-shake ring-4 ring-yellow-400 z-50' : canTake ? 'ring-2 ring-emerald-400' : ''}
+        ${isCrossed || fate === 'OURS' || fate === 'THEIRS' ? 'opacity-25 grayscale' : 'opacity-100'}
         ${isSelectedByMe ? 'bg-slate-800 border-blue-500 shadow-[0_0_15px_rgba(59,130,246,0.5)]' : 'bg-slate-900 border-slate-700'}
         ${isSelectedByPartner && !isSelectedByMe ? 'bg-slate-900 border-green-500 shadow-[0_0_10px_rgba(34,197,94,0.3)]' : ''}
         ${isSelectedByPartner && isSelectedByMe ? 'border-transparent ring-2 ring-blue-500 ring-offset-2 ring-offset-green-500' : ''}
@@ -93,6 +115,13 @@ export const Card: React.FC<CardProps> = ({
         <div className="absolute bottom-1 left-1 w-2 h-2 rounded-full bg-blue-500" />
       )}
 
+      {/* Where the card went this deal */}
+      {badge && (
+        <div className={`absolute bottom-1 left-1/2 -translate-x-1/2 z-20 px-1 rounded text-[8px] sm:text-[10px] font-bold leading-tight pointer-events-none ${badge.className}`}>
+          {badge.label}
+        </div>
+      )}
+
       {/* Action Buttons */}
       <div className="self-end z-10">
         <button
@@ -0,0 +1,172 @@
+import React, { useMemo, useState } from 'react';
+import { CardFate, CardMarks } from '../types';
+import { RANKS, SuitIcon, generateDeck, getRankLabel } from '../constants';
+import { HANDS_PER_DEAL, HayaStatus, countRemaining } from '../services/cardCount';
+import { canCapture, rankPlays } from '../services/rules';
+import { Card } from './Card';
+import { RotateCcw, Minus, Plus } from 'lucide-react';
+
+interface CardTrackerProps {
+  marks: Record<string, CardMarks>;
+  handsDealt: number;
+  shakingCardId: string | null;
+  onToggleSelect: (id: string) => void;
+  onToggleCross: (id: string) => void;
+  onToggleCircle: (id: string) => void;
+  onSignal: (id: string) => void;
+  onSetFate: (id: string, fate: CardFate | null) => void;
+  onHandsDealtChange: (value: number) => void;
+  onReset: () => void;
+}
+
+export const EMPTY_MARKS: CardMarks = {
+  selectedByMe: false,
+  selectedByPartner: false,
+  crossed: false,
+  circled: false,
+  fate: null,
+  heldByMe: false,
+};
+
+// What a tap does. SIGNAL keeps the select / fade / circle taps
+type TapMode = 'SIGNAL' | CardFate;
+
+const TAP_MODES: { mode: TapMode; label: string }[] = [
+  { mode: 'SIGNAL', label: 'Signal' },
+  { mode: 'PLAYED', label: 'Table' },
+  { mode: 'OURS', label: 'Us' },
+  { mode: 'THEIRS', label: 'Them' },
+  { mode: 'HAND', label: 'My Hand' },
+];
+
+const HAYA_LABELS: Record<HayaStatus, string> = {
+  UNSEEN: 'unseen',
+  ON_TABLE: 'on the table',
+  MY_HAND: 'in my hand',
+  PARTNER_HAND: "in partner's hand",
+  OURS: 'captured by us',
+  THEIRS: 'captured by them',
+};
+
+export const CardTracker: React.FC<CardTrackerProps> = ({
+  marks,
+  handsDealt,
+  shakingCardId,
+  onToggleSelect,
+  onToggleCross,
+  onToggleCircle,
+  onSignal,
+  onSetFate,
+  onHandsDealtChange,
+  onReset,
+}) => {
+  // The deck never changes, build it once
+  const deck = useMemo(() => generateDeck(), []);
+  const [tapMode, setTapMode] = useState<TapMode>('SIGNAL');
+  const remaining = useMemo(() => countRemaining(marks, handsDealt), [marks, handsDealt]);
+
+  // With my hand and the table marked, the rules engine can point at captures
+  const { takers, best } = useMemo(() => {
+    const table = deck.filter(c => marks[c.id]?.fate === 'PLAYED');
+    const hand = deck.filter(c => marks[c.id]?.fate === 'HAND' && marks[c.id].heldByMe);
+    return {
+      takers: new Set(hand.filter(c => canCapture(table, c)).map(c => c.id)),
+      best: hand.length > 0 && table.length > 0 ? rankPlays(hand, table)[0] : null,
+    };
+  }, [deck, marks]);
+
+  // Tapping a card again in the same mode clears its fate. The partner's hand is theirs to change
+  const markFate = (id: string) => {
+    if (tapMode === 'SIGNAL') return;
+    const m = marks[id] || EMPTY_MARKS;
+    if (m.fate === 'HAND' && !m.heldByMe && tapMode === 'HAND') return;
+    onSetFate(id, m.fate === tapMode && (tapMode !== 'HAND' || m.heldByMe) ? null : tapMode);
+  };
+
+  return (
+    <div className="w-full h-full overflow-y-auto p-2 sm:p-3 space-y-2">
+      <div className="flex items-center justify-between text-[10px] text-slate-500 uppercase tracking-wider">
+        <span>{tapMode === 'SIGNAL' ? 'Tap: select · 3x: fade · 4x: circle' : 'Tap: mark · again: unmark'}</span>
+        <button onClick={onReset} className="flex items-center gap-1 px-2 py-1 rounded border border-slate-800 hover:bg-slate-800 hover:text-white transition-colors">
+          <RotateCcw size={10} /> New Deal
+        </button>
+      </div>
+
+      {/* What's left */}
+      <div className="bg-slate-900/50 border border-slate-800 rounded-lg p-2 space-y-2">
+        <div className="grid grid-cols-10 gap-1 text-center">
+          {RANKS.map(rank => (
+            <div key={rank}>
+              <div className="text-[10px] text-slate-500">{getRankLabel(rank)}</div>
+              <div className={`font-mono font-bold ${remaining.byRank[rank] === 0 ? 'text-slate-700' : rank === 7 ? 'text-yellow-400' : 'text-white'}`}>
+                {remaining.byRank[rank]}
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-[11px] text-slate-400">
+          <span>Dinari left <b className="text-yellow-500">{remaining.dinari}</b></span>
+          <span>
+            7 of Dinari <b className={remaining.hayaLive ? 'text-green-400' : 'text-slate-600'}>{HAYA_LABELS[remaining.haya]}</b>
+          </span>
+          <span className="flex items-center gap-1 ml-auto">
+            To deal <b className="text-white">{remaining.leftToDeal}</b>
+            <button onClick={() => onHandsDealtChange(Math.max(1, handsDealt - 1))} title="Hands dealt" className="p-0.5 rounded bg-slate-800"><Minus size={10} /></button>
+            <span className="font-mono">{handsDealt}/{HANDS_PER_DEAL}</span>
+            <button onClick={() => onHandsDealtChange(Math.min(HANDS_PER_DEAL, handsDealt + 1))} title="Hands dealt" className="p-0.5 rounded bg-slate-800"><Plus size={10} /></button>
+          </span>
+        </div>
+      </div>
+
+      {best && (
+        <div className="flex items-center gap-1 text-[11px] text-emerald-300 bg-emerald-950/40 border border-emerald-900 rounded-lg px-2 py-1">
+          <span>Suggest:</span>
+          <b>{best.card.label}</b>
+          <SuitIcon suit={best.card.suit} className="w-3 h-3" />
+          <span className="text-emerald-500 truncate">
+            {best.capture ? `takes ${best.capture.cards.map(c => c.label).join('+')}` : 'drop it'}
+            {best.reasons.length > 0 && ` · ${best.reasons[0]}`}
+          </span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-5 gap-1 text-[10px] font-bold uppercase">
+        {TAP_MODES.map(({ mode, label }) => (
+          <button
+            key={mode}
+            onClick={() => setTapMode(mode)}
+            className={`py-1.5 rounded border ${tapMode === mode ? 'border-blue-500 bg-blue-600/20 text-blue-300' : 'border-slate-800 text-slate-500'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {/* One row of 10 ranks per suit */}
+      <div className="grid grid-cols-5 sm:grid-cols-10 gap-1 sm:gap-2">
+        {deck.map(card => {
+          const m = marks[card.id] || EMPTY_MARKS;
+          return (
+            <Card
+              key={card.id}
+              card={card}
+              isSelectedByMe={m.selectedByMe}
+              isSelectedByPartner={m.selectedByPartner}
+              isCrossed={m.crossed}
+              isCircled={m.circled}
+              isShaking={shakingCardId === card.id}
+              fate={m.fate}
+              heldByMe={m.heldByMe}
+              canTake={takers.has(card.id)}
+              onTap={tapMode === 'SIGNAL' ? undefined : markFate}
+              onToggleSelect={onToggleSelect}
+              onToggleCross={onToggleCross}
+              onToggleCircle={onToggleCircle}
+              onSignal={onSignal}
+            />
+          );
+        })}
+      </div>
+    </div>
+  );
+};
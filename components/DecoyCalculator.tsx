@@ -0,0 +1,136 @@
+import React, { useRef, useState } from 'react';
+
+interface DecoyCalculatorProps {
+  pin: string; // Empty: long-press "=" unlocks
+  recovery: boolean; // With a PIN, a much longer press still unlocks
+  onUnlock: () => void;
+}
+
+type Op = '+' | '−' | '×' | '÷';
+
+const UNLOCK_HOLD_MS = 1200;
+// Opt-in only: it gets anyone past the PIN who knows to hold "="
+const RECOVERY_HOLD_MS = 10000;
+
+const apply = (a: number, b: number, op: Op): number => {
+  switch (op) {
+    case '+': return a + b;
+    case '−': return a - b;
+    case '×': return a * b;
+    case '÷': return b === 0 ? NaN : a / b;
+  }
+};
+
+const format = (n: number): string =>
+  Number.isFinite(n) ? String(Number(n.toPrecision(10))) : 'Error';
+
+// The panic screen: a plain, working calculator. Nothing on it hints at the
+// game. Typing the PIN and pressing "=" brings the game back.
+export const DecoyCalculator: React.FC<DecoyCalculatorProps> = ({ pin, recovery, onUnlock }) => {
+  const [display, setDisplay] = useState('0');
+  const [entry, setEntry] = useState(''); // Digits typed since the last operator
+  const [typed, setTyped] = useState(''); // The same keys as pressed, without number formatting, for the PIN
+  const [acc, setAcc] = useState<number | null>(null);
+  const [op, setOp] = useState<Op | null>(null);
+  const holdTimer = useRef<any>(null);
+
+  const clear = () => {
+    setDisplay('0');
+    setEntry('');
+    setTyped('');
+    setAcc(null);
+    setOp(null);
+  };
+
+  const digit = (d: string) => {
+    if (d === '.' && entry.includes('.')) return;
+    const next = (entry === '0' && d !== '.' ? '' : entry) + d;
+    setEntry(next);
+    setDisplay(next);
+    setTyped(typed + d); // Keeps leading zeros, so a PIN like "0123" works
+  };
+
+  // Keys that change the number other than by typing
+  const edit = (value: string) => {
+    setEntry(value);
+    setDisplay(value);
+    setTyped('');
+  };
+
+  const operator = (next: Op) => {
+    const value = entry ? parseFloat(entry) : parseFloat(display);
+    const result = acc !== null && op && entry ? apply(acc, value, op) : value;
+    setAcc(result);
+    setDisplay(format(result));
+    setOp(next);
+    setEntry('');
+    setTyped('');
+  };
+
+  const equals = () => {
+    if (pin && typed === pin && acc === null) {
+      clear();
+      onUnlock();
+      return;
+    }
+    if (acc === null || !op) return;
+    const result = apply(acc, entry ? parseFloat(entry) : acc, op);
+    setDisplay(format(result));
+    setAcc(null);
+    setOp(null);
+    setEntry('');
+    setTyped('');
+  };
+
+  const startHold = () => {
+    if (pin && !recovery) return;
+    holdTimer.current = setTimeout(() => {
+      clear();
+      onUnlock();
+    }, pin ? RECOVERY_HOLD_MS : UNLOCK_HOLD_MS);
+  };
+
+  const endHold = () => {
+    if (holdTimer.current) clearTimeout(holdTimer.current);
+    holdTimer.current = null;
+  };
+
+  const key = (label: string, onPress: () => void, style = 'bg-neutral-700 text-white') => (
+    <button key={label} onClick={onPress} className={`rounded-full text-2xl aspect-square active:brightness-125 ${style}`}>
+      {label}
+    </button>
+  );
+
+  const opStyle = 'bg-orange-500 text-white';
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black flex flex-col justify-end p-4 pb-8 select-none">
+      <div className="text-right text-white text-6xl font-light px-2 pb-4 truncate">{display}</div>
+      <div className="grid grid-cols-4 gap-3 max-w-sm w-full mx-auto">
+        {key('AC', clear, 'bg-neutral-400 text-black')}
+        {key('±', () => edit(format(-parseFloat(entry || display))), 'bg-neutral-400 text-black')}
+        {key('%', () => edit(format(parseFloat(entry || display) / 100)), 'bg-neutral-400 text-black')}
+        {key('÷', () => operator('÷'), opStyle)}
+        {['7', '8', '9'].map(d => key(d, () => digit(d)))}
+        {key('×', () => operator('×'), opStyle)}
+        {['4', '5', '6'].map(d => key(d, () => digit(d)))}
+        {key('−', () => operator('−'), opStyle)}
+        {['1', '2', '3'].map(d => key(d, () => digit(d)))}
+        {key('+', () => operator('+'), opStyle)}
+        <button onClick={() => digit('0')} className="col-span-2 rounded-full text-2xl text-left pl-8 bg-neutral-700 text-white active:brightness-125">0</button>
+        {key('.', () => digit('.'))}
+        <button
+          onClick={equals}
+          onTouchStart={startHold}
+          onTouchEnd={endHold}
+          onMouseDown={startHold}
+          onMouseUp={endHold}
+          onMouseLeave={endHold}
+          className={`rounded-full text-2xl aspect-square active:brightness-125 ${opStyle}`}
+        >
+          =
+        </button>
+      </div>
+    </div>
+  );
+};
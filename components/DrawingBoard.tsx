@@ -1,148 +1,351 @@
 import React, { useRef, useEffect, useState } from 'react';
-import { Stroke, Point } from '../types';
+import { Stroke, Point, DrawingTool, StrokeStyle } from '../types';
+import { BOARD_HEIGHT, BOARD_SIZE, BOARD_WIDTH, BoardFit, fitBoard, hitTestStrokes } from '../services/geometry';
+import { drawStroke, pressureWidth } from '../services/brush';
+import { expiresAt, inkOpacity } from '../services/fadingInk';
+import { isPalmContact } from '../services/touch';
 
 interface DrawingBoardProps {
   strokes: Stroke[];
-  onStrokeComplete: (points: Point[]) => void;
-  color: string;
+  onStrokeComplete: (points: Point[], pressure?: number) => void; // Pressure: stylus average, 0-1
+  brush: StrokeStyle; // How my stroke looks while it is drawn
+  tool?: DrawingTool;
+  onErase?: (strokeId: string) => void;
+  // Live streaming of my stroke while the finger is still down
+  onStrokeProgress?: (points: Point[], pressure?: number) => void; // New points, at most once per animation frame. Not for stamps
+  onStrokeCancel?: () => void;
+  liveStrokes?: Stroke[]; // Partner's strokes still being drawn
+  placeholder?: string;
+  clockOffset?: number; // Partner clock minus ours, for when their fading strokes expire
+  holdToKeep?: boolean; // Pressing a partner's fading stroke keeps it visible until release
+  readOnly?: boolean; // Shows strokes without taking input, e.g. in a replay
 }
 
-export const DrawingBoard: React.FC<DrawingBoardProps> = ({ strokes, onStrokeComplete, color }) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+// How close (screen px) the eraser must come to a stroke's edge
+const ERASER_TOLERANCE = 14;
+
+const NO_STROKES: Stroke[] = []; // Stable default, so the render effect doesn't re-run every render
+
+// A stamp only keeps where the drag started and ended
+const stampPoints = (path: Point[]): Point[] => [path[0], path[path.length - 1]];
+
+const isFading = (stroke: Stroke) => stroke.ttl !== undefined;
+
+// The shared board (see services/geometry.ts), fitted into the available
+// space with its edges drawn. Two layers: settled strokes are cached on the
+// base canvas and only redrawn when they change; the overlay holds everything
+// that moves (my stroke, the partner's live strokes, fading ink) and is
+// redrawn at most once per frame. Both draw in board units.
+export const DrawingBoard: React.FC<DrawingBoardProps> = ({ strokes, onStrokeComplete, brush, tool = 'PEN', onErase, onStrokeProgress, onStrokeCancel, liveStrokes = NO_STROKES, placeholder = 'Draw numbers (e.g. 7, 10)...', clockOffset = 0, holdToKeep = false, readOnly = false }) => {
+  const baseRef = useRef<HTMLCanvasElement>(null);
+  const overlayRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const [isDrawing, setIsDrawing] = useState(false);
+  const [fit, setFit] = useState<BoardFit>(() => fitBoard(0, 0));
+  const fitRef = useRef(fit);
+  const baseIdsRef = useRef<string[]>([]); // Strokes already on the base, in order
+  const [isDrawing, setIsDrawing] = useState(false); // Only for the placeholder; input runs on refs
+  const pointerRef = useRef<{ id: number; type: string } | null>(null);
+  const lastPenRef = useRef(0); // performance.now() the stylus was last seen
   const currentPath = useRef<Point[]>([]);
+  const pressureRef = useRef({ sum: 0, count: 0 });
+  const erasedIds = useRef<Set<string>>(new Set()); // Already erased during this drag
+  const pendingPoints = useRef<Point[]>([]); // Drawn but not yet streamed
+  const frameRef = useRef<number | null>(null);
+  const [heldId, setHeldId] = useState<string | null>(null);
+
+  // Latest props for the frame callback, which may run after a render
+  const propsRef = useRef({ strokes, liveStrokes, brush, tool, heldId, clockOffset, onStrokeProgress });
+  propsRef.current = { strokes, liveStrokes, brush, tool, heldId, clockOffset, onStrokeProgress };
+
+  const opacityOf = (stroke: Stroke, now: number) =>
+    stroke.id === propsRef.current.heldId ? 1 : inkOpacity(stroke, now, propsRef.current.clockOffset);
+
+  const averagePressure = () => {
+    const { sum, count } = pressureRef.current;
+    return count > 0 ? sum / count : undefined;
+  };
 
-  // Helper to get normalized coordinates (0-1)
-  const getCoords = (e: MouseEvent | TouchEvent): Point | null => {
-    const canvas = canvasRef.current;
+  // Clamped, so a stroke that runs off the board follows its edge
+  const getCoords = (e: { clientX: number; clientY: number }): Point | null => {
+    const canvas = overlayRef.current;
     if (!canvas) return null;
-    
     const rect = canvas.getBoundingClientRect();
-    let clientX, clientY;
+    if (rect.width === 0 || rect.height === 0) return null;
+    return {
+      x: Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)),
+      y: Math.max(0, Math.min(1, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  // The eraser and hold-to-keep reach the same distance on screen at any board size
+  const touchTolerance = () => ERASER_TOLERANCE / (fitRef.current.scale || 1);
 
-    if ('touches' in e) {
-      clientX = e.touches[0].clientX;
-      clientY = e.touches[0].clientY;
+  // --- Layers ---
+
+  // Sizes both canvases for the board and the screen's pixel density, drawing in board units
+  const fitCanvases = (board: BoardFit) => {
+    const dpr = window.devicePixelRatio || 1;
+    const pixelWidth = Math.round(board.width * dpr), pixelHeight = Math.round(board.height * dpr);
+    [baseRef.current, overlayRef.current].forEach(canvas => {
+      if (!canvas) return;
+      canvas.width = pixelWidth; // Reallocates and resets the context
+      canvas.height = pixelHeight;
+      canvas.getContext('2d')?.setTransform(dpr * board.scale, 0, 0, dpr * board.scale, 0, 0);
+    });
+  };
+
+  const clear = (canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D) => {
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.restore();
+  };
+
+  // Settled strokes. Appending only draws the new ones; anything else repaints the layer
+  const renderBase = (full: boolean) => {
+    const canvas = baseRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const settled = propsRef.current.strokes.filter(s => !isFading(s));
+    const drawn = baseIdsRef.current;
+    const appended = !full && drawn.length <= settled.length && drawn.every((id, i) => settled[i].id === id)
+      ? settled.slice(drawn.length)
+      : null;
+
+    if (appended && !appended.some(s => s.highlighter)) {
+      appended.forEach(s => drawStroke(ctx, s, BOARD_WIDTH, BOARD_HEIGHT));
     } else {
-      clientX = (e as MouseEvent).clientX;
-      clientY = (e as MouseEvent).clientY;
+      clear(canvas, ctx);
+      // Highlighters go under the ink
+      [...settled.filter(s => s.highlighter), ...settled.filter(s => !s.highlighter)].forEach(s => drawStroke(ctx, s, BOARD_WIDTH, BOARD_HEIGHT));
     }
-
-    return {
-      x: (clientX - rect.left) / rect.width,
-      y: (clientY - rect.top) / rect.height,
-    };
+    baseIdsRef.current = settled.map(s => s.id);
   };
 
-  // Draw a single stroke
-  const drawStroke = (ctx: CanvasRenderingContext2D, stroke: Stroke, width: number, height: number) => {
-    if (stroke.points.length < 2) return;
+  // Returns true while fading ink still needs frames
+  const renderOverlay = (): boolean => {
+    const canvas = overlayRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return false;
+    const { strokes, liveStrokes, brush, tool } = propsRef.current;
+    clear(canvas, ctx);
 
-    ctx.beginPath();
-    ctx.strokeStyle = stroke.color;
-    ctx.lineWidth = 6; // Thicker lines for better visibility
-    ctx.lineCap = 'round';
-    ctx.lineJoin = 'round';
+    const now = Date.now();
+    let fading = false;
+    strokes.forEach(s => {
+      if (!isFading(s)) return;
+      const opacity = opacityOf(s, now);
+      if (opacity <= 0) return;
+      fading = true;
+      ctx.globalAlpha = opacity;
+      drawStroke(ctx, s, BOARD_WIDTH, BOARD_HEIGHT);
+    });
 
-    const first = stroke.points[0];
-    ctx.moveTo(first.x * width, first.y * height);
+    // Partner strokes in progress, dimmed until they are finalized
+    ctx.globalAlpha = 0.6;
+    liveStrokes.forEach(s => drawStroke(ctx, s, BOARD_WIDTH, BOARD_HEIGHT));
+    ctx.globalAlpha = 1;
 
-    for (let i = 1; i < stroke.points.length; i++) {
-      const p = stroke.points[i];
-      ctx.lineTo(p.x * width, p.y * height);
+    if (pointerRef.current && currentPath.current.length > 0 && tool !== 'ERASER') {
+      const pressure = averagePressure();
+      const pen = !brush.highlighter && !brush.stamp && brush.width !== undefined;
+      const style = pen && pressure !== undefined ? { ...brush, width: pressureWidth(brush.width!, pressure) } : brush;
+      const points = brush.stamp ? stampPoints(currentPath.current) : currentPath.current;
+      drawStroke(ctx, { ...style, id: 'temp', points, isRemote: false }, BOARD_WIDTH, BOARD_HEIGHT);
     }
-    ctx.stroke();
+    return fading;
   };
 
-  // Redraw everything
-  const renderCanvas = () => {
-    const canvas = canvasRef.current;
+  // --- Frame loop ---
+
+  const flushProgress = () => {
+    const onProgress = propsRef.current.onStrokeProgress;
+    if (pendingPoints.current.length > 0 && onProgress) onProgress(pendingPoints.current, averagePressure());
+    pendingPoints.current = [];
+  };
+
+  const tick = () => {
+    frameRef.current = null;
+    flushProgress();
+    if (renderOverlay()) requestFrame();
+  };
+
+  const requestFrame = () => {
+    if (frameRef.current === null) frameRef.current = requestAnimationFrame(tick);
+  };
+
+  useEffect(() => {
     const container = containerRef.current;
-    if (!canvas || !container) return;
+    if (!container) return;
+    // Observe the container rather than the window: it also resizes when the
+    // board is shown again after being hidden behind another tab
+    const observer = new ResizeObserver(() => {
+      const next = fitBoard(container.clientWidth, container.clientHeight);
+      setFit(prev => (prev.width === next.width && prev.height === next.height && prev.left === next.left && prev.top === next.top ? prev : next));
+    });
+    observer.observe(container);
+    return () => {
+      observer.disconnect();
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    };
+  }, []);
 
-    // Match container size
-    canvas.width = container.clientWidth;
-    canvas.height = container.clientHeight;
+  // Rotation or resize: same strokes, new scale
+  useEffect(() => {
+    fitRef.current = fit;
+    fitCanvases(fit);
+    renderBase(true);
+    requestFrame();
+  }, [fit]);
 
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+  useEffect(() => {
+    renderBase(false);
+    requestFrame();
+  }, [strokes]);
 
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
+  useEffect(() => {
+    requestFrame();
+  }, [liveStrokes, heldId, clockOffset, brush]);
 
-    // Draw saved strokes
-    strokes.forEach(s => drawStroke(ctx, s, canvas.width, canvas.height));
-
-    // Draw current stroke being drawn (Local feedback)
-    if (isDrawing && currentPath.current.length > 0) {
-      drawStroke(
-        ctx, 
-        { id: 'temp', points: currentPath.current, color: color, isRemote: false }, 
-        canvas.width, 
-        canvas.height
-      );
+  // --- Input ---
+
+  // Erases the topmost stroke under the pointer, once per drag
+  const eraseAt = (pt: Point) => {
+    if (!onErase) return;
+    const now = Date.now();
+    const remaining = strokes.filter(s => !erasedIds.current.has(s.id) && opacityOf(s, now) > 0);
+    const hit = hitTestStrokes(remaining, pt, touchTolerance(), BOARD_SIZE);
+    if (hit) {
+      erasedIds.current.add(hit.id);
+      onErase(hit.id);
     }
   };
 
-  useEffect(() => {
-    renderCanvas();
-    window.addEventListener('resize', renderCanvas);
-    return () => window.removeEventListener('resize', renderCanvas);
-  }, [strokes, isDrawing]); // Re-render when strokes change or drawing state changes
+  const isPalm = (e: React.PointerEvent) =>
+    e.pointerType === 'touch' && isPalmContact(e.width, e.height, lastPenRef.current);
 
-  // Event Handlers
-  const startDrawing = (e: any) => {
-    setIsDrawing(true);
-    currentPath.current = [];
-    const pt = getCoords(e.nativeEvent);
-    if (pt) currentPath.current.push(pt);
-  };
-
-  const moveDrawing = (e: any) => {
-    if (!isDrawing) return;
-    // Prevent scrolling on mobile while drawing
-    e.preventDefault(); 
-    const pt = getCoords(e.nativeEvent);
-    if (pt) {
-      currentPath.current.push(pt);
-      // Force re-render for live feedback
-      renderCanvas();
+  const addPoint = (e: { clientX: number; clientY: number; pressure: number; pointerType: string }) => {
+    const pt = getCoords(e);
+    if (!pt) return;
+    if (tool === 'ERASER') {
+      eraseAt(pt);
+      return;
     }
+    if (e.pointerType === 'pen') {
+      pressureRef.current.sum += e.pressure;
+      pressureRef.current.count++;
+    }
+    currentPath.current.push(pt);
+    if (!brush.stamp) pendingPoints.current.push(pt);
   };
 
-  const endDrawing = () => {
-    if (!isDrawing) return;
+  const endPointer = () => {
+    pointerRef.current = null;
     setIsDrawing(false);
-    if (currentPath.current.length > 0) {
-      onStrokeComplete([...currentPath.current]);
+    currentPath.current = [];
+    pendingPoints.current = [];
+    pressureRef.current = { sum: 0, count: 0 };
+    requestFrame();
+  };
+
+  const cancelDrawing = () => {
+    const hadStroke = currentPath.current.length > 0 && tool !== 'ERASER';
+    endPointer();
+    if (hadStroke) onStrokeCancel?.();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (e.pointerType === 'pen') lastPenRef.current = performance.now();
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+
+    const active = pointerRef.current;
+    if (active) {
+      // A second finger makes it a gesture (e.g. the two-finger panic), not a stroke
+      if (active.type === 'touch' && e.pointerType === 'touch') cancelDrawing();
+      return;
     }
+    if (isPalm(e)) return;
+
+    const pt = getCoords(e);
+    if (pt && holdToKeep && tool !== 'ERASER') {
+      const now = Date.now();
+      const fading = strokes.filter(s => s.isRemote && expiresAt(s, clockOffset) !== null && opacityOf(s, now) > 0);
+      const hit = hitTestStrokes(fading, pt, touchTolerance(), BOARD_SIZE);
+      if (hit) {
+        setHeldId(hit.id); // Holding, not drawing
+        return;
+      }
+    }
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointerRef.current = { id: e.pointerId, type: e.pointerType };
+    setIsDrawing(true);
     currentPath.current = [];
+    erasedIds.current = new Set();
+    pressureRef.current = { sum: 0, count: 0 };
+    addPoint(e);
+    requestFrame();
   };
 
-  return (
-    <div ref={containerRef} className="w-full h-full relative overflow-hidden touch-none select-none">
-      {/* Background Grid Guide (Optional visual flair) */}
-      <div className="absolute inset-0 opacity-10 pointer-events-none" 
-           style={{ backgroundImage: 'radial-gradient(circle, #475569 1px, transparent 1px)', backgroundSize: '20px 20px' }}>
-      </div>
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (pointerRef.current?.id !== e.pointerId) return;
+    if (e.pointerType === 'pen') lastPenRef.current = performance.now();
+    // Fast strokes deliver several positions per event; without them curves turn into polygons
+    const native = e.nativeEvent;
+    const events = typeof native.getCoalescedEvents === 'function' ? native.getCoalescedEvents() : [];
+    (events.length > 0 ? events : [native]).forEach(addPoint);
+    requestFrame();
+  };
 
-      <canvas
-        ref={canvasRef}
-        className="absolute inset-0 w-full h-full cursor-crosshair touch-none"
-        onMouseDown={startDrawing}
-        onMouseMove={moveDrawing}
-        onMouseUp={endDrawing}
-        onMouseLeave={endDrawing}
-        onTouchStart={startDrawing}
-        onTouchMove={moveDrawing}
-        onTouchEnd={endDrawing}
-      />
-      
-      {strokes.length === 0 && !isDrawing && (
-        <div className="absolute inset-0 flex items-center justify-center pointer-events-none opacity-20 text-slate-500">
-          <p className="text-xl font-handwriting">Draw numbers (e.g. 7, 10)...</p>
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (heldId) setHeldId(null);
+    if (pointerRef.current?.id !== e.pointerId) return;
+    if (e.pointerType === 'pen') lastPenRef.current = performance.now();
+    flushProgress(); // The partner gets every point before the final stroke
+    const path = currentPath.current;
+    const pressure = averagePressure();
+    if (path.length > 0 && tool !== 'ERASER') {
+      onStrokeComplete(brush.stamp ? stampPoints(path) : [...path], pressure);
+    }
+    endPointer();
+  };
+
+  // The OS took the pointer away (incoming call, system gesture): drop the stroke
+  const handlePointerCancel = (e: React.PointerEvent) => {
+    if (heldId) setHeldId(null);
+    if (pointerRef.current?.id === e.pointerId) cancelDrawing();
+  };
+
+  return (
+    <div ref={containerRef} className="w-full h-full relative overflow-hidden touch-none select-none bg-black/40">
+      {/* The shared area: what the partner sees too. Outside it is letterbox */}
+      <div
+        className="absolute rounded-sm ring-1 ring-slate-700 bg-slate-900/30"
+        style={{ left: fit.left, top: fit.top, width: fit.width, height: fit.height }}
+      >
+        {/* Background Grid Guide (Optional visual flair) */}
+        <div className="absolute inset-0 opacity-10 pointer-events-none"
+             style={{ backgroundImage: 'radial-gradient(circle, #475569 1px, transparent 1px)', backgroundSize: `${20 * fit.scale}px ${20 * fit.scale}px` }}>
         </div>
-      )}
+
+        <canvas ref={baseRef} className="absolute inset-0 w-full h-full pointer-events-none" />
+        <canvas
+          ref={overlayRef}
+          className={`absolute inset-0 w-full h-full touch-none ${readOnly ? 'pointer-events-none' : tool === 'ERASER' ? 'cursor-cell' : 'cursor-crosshair'}`}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerCancel}
+          onContextMenu={(e) => e.preventDefault()}
+        />
+
+        {strokes.length === 0 && liveStrokes.length === 0 && !isDrawing && (
+          <div className="absolute inset-0 flex items-center justify-center pointer-events-none opacity-20 text-slate-500">
+            <p className="text-xl font-handwriting">{placeholder}</p>
+          </div>
+        )}
+      </div>
     </div>
   );
-};
\ No newline at end of file
+};
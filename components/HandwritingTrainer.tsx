@@ -0,0 +1,104 @@
+import React, { useMemo, useState } from 'react';
+import { Point, Stroke } from '../types';
+import { DrawingBoard } from './DrawingBoard';
+import { toBoardUnits } from '../services/geometry';
+import { BUILTIN_TEMPLATES, RANK_GLYPHS, RankGlyph, Template, recognize, toCloud } from '../services/recognizer';
+import { X, RotateCcw, Plus, Trash2 } from 'lucide-react';
+
+interface HandwritingTrainerProps {
+  templates: Template[]; // This device's own samples
+  onChange: (templates: Template[]) => void;
+  onClose: () => void;
+}
+
+// Records handwriting samples for the rank recognizer. Samples never leave
+// this device: each partner trains for their own hand.
+export const HandwritingTrainer: React.FC<HandwritingTrainerProps> = ({ templates, onChange, onClose }) => {
+  const [glyph, setGlyph] = useState<RankGlyph>('7');
+  const [strokes, setStrokes] = useState<Stroke[]>([]);
+
+  // Same units on both axes, as on the game board
+  const sample = useMemo(
+    () => strokes.map(s => toBoardUnits(s.points)),
+    [strokes]
+  );
+  const guess = useMemo(
+    () => (sample.length > 0 ? recognize(sample, [...templates, ...BUILTIN_TEMPLATES]) : null),
+    [sample, templates]
+  );
+
+  const counts = useMemo(() => {
+    const c: Partial<Record<RankGlyph, number>> = {};
+    templates.forEach(t => { c[t.glyph] = (c[t.glyph] || 0) + 1; });
+    return c;
+  }, [templates]);
+
+  const addStroke = (points: Point[]) => {
+    setStrokes(prev => [...prev, { id: `${prev.length}`, points, color: '#3b82f6', isRemote: false }]);
+  };
+
+  const saveSample = () => {
+    if (sample.length === 0) return;
+    onChange([...templates, { glyph, cloud: toCloud(sample) }]);
+    setStrokes([]);
+  };
+
+  const forgetGlyph = () => {
+    onChange(templates.filter(t => t.glyph !== glyph));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/95 flex flex-col p-4 gap-3 overflow-y-auto">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-bold text-white">Teach My Handwriting</h2>
+        <button onClick={onClose} className="p-2 text-slate-400 hover:text-white">
+          <X size={20} />
+        </button>
+      </div>
+      <p className="text-xs text-slate-500">
+        Pick a rank, write it the way you do in game, then save. A few samples per rank help the most. Samples stay on this phone.
+      </p>
+
+      <div className="grid grid-cols-7 gap-1">
+        {RANK_GLYPHS.map(g => (
+          <button
+            key={g}
+            onClick={() => setGlyph(g)}
+            className={`relative py-2 rounded font-bold text-sm border ${glyph === g ? 'bg-blue-600 border-blue-500 text-white' : 'bg-slate-900 border-slate-800 text-slate-300'}`}
+          >
+            {g}
+            {counts[g] ? <span className="absolute -top-1 -right-1 text-[9px] bg-green-600 text-white rounded-full px-1">{counts[g]}</span> : null}
+          </button>
+        ))}
+      </div>
+
+      <div className="w-full max-w-sm mx-auto aspect-square bg-slate-900 border border-slate-800 rounded-lg overflow-hidden">
+        <DrawingBoard
+          strokes={strokes}
+          onStrokeComplete={addStroke}
+          brush={{ color: '#3b82f6' }}
+          placeholder={`Write "${glyph}"`}
+        />
+      </div>
+
+      <div className="text-center text-sm h-5 text-slate-400">
+        {guess ? <>Recognized as <span className="font-bold text-white">{guess.glyph}</span></> : strokes.length > 0 ? 'Not recognized yet' : ''}
+      </div>
+
+      <div className="flex gap-2 max-w-sm w-full mx-auto">
+        <button onClick={() => setStrokes([])} className="flex-1 py-2 rounded border border-slate-700 text-slate-300 flex items-center justify-center gap-1 text-sm">
+          <RotateCcw size={14} /> Clear
+        </button>
+        <button onClick={saveSample} disabled={strokes.length === 0} className="flex-1 py-2 rounded bg-blue-600 text-white font-bold flex items-center justify-center gap-1 text-sm disabled:opacity-40">
+          <Plus size={14} /> Save as {glyph}
+        </button>
+      </div>
+
+      {counts[glyph] ? (
+        <button onClick={forgetGlyph} className="mx-auto text-xs text-red-400 flex items-center gap-1">
+          <Trash2 size={12} /> Forget my {counts[glyph]} sample(s) of {glyph}
+        </button>
+      ) : null}
+    </div>
+  );
+};
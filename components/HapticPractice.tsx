@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { Suit } from '../types';
+import { RANKS, SUITS, SuitIcon, getRankLabel } from '../constants';
+import { HapticSettings, cardCode, decodeCode, toPattern, vibrate } from '../services/haptics';
+import { HapticPulse } from './HapticPulse';
+import { ArrowLeft, Play, Check, X } from 'lucide-react';
+
+interface HapticPracticeProps {
+  settings: HapticSettings;
+  onClose: () => void;
+}
+
+const randomCard = () => `${SUITS[Math.floor(Math.random() * SUITS.length)]}-${RANKS[Math.floor(Math.random() * RANKS.length)]}`;
+
+// Feel a random card, then pick what it was. Uses the saved codes, the same ones played in a game
+export const HapticPractice: React.FC<HapticPracticeProps> = ({ settings, onClose }) => {
+  const [cardId, setCardId] = useState(randomCard);
+  const [round, setRound] = useState(0); // The same card can come up twice in a row
+  const [guessSuit, setGuessSuit] = useState<Suit | null>(null);
+  const [guessRank, setGuessRank] = useState<number | null>(null);
+  const [tally, setTally] = useState({ right: 0, total: 0 });
+  const [pulse, setPulse] = useState<{ pattern: number[]; at: number } | null>(null);
+
+  const code = cardCode(cardId, settings);
+  const answer = decodeCode(code, settings);
+  const needsSuit = settings.withSuit;
+  const answered = guessRank !== null && (!needsSuit || guessSuit !== null);
+  const correct = answered && guessRank === answer.rank && (!needsSuit || guessSuit === answer.suit);
+
+  const play = () => {
+    const pattern = toPattern(code, settings.unit);
+    // No code text in the fallback: that would give the answer away
+    if (!vibrate(pattern)) setPulse({ pattern, at: Date.now() });
+  };
+
+  useEffect(() => {
+    play();
+  }, [round]);
+
+  useEffect(() => {
+    if (answered) setTally(t => ({ right: t.right + (correct ? 1 : 0), total: t.total + 1 }));
+  }, [answered]);
+
+  const next = () => {
+    setGuessSuit(null);
+    setGuessRank(null);
+    setCardId(randomCard());
+    setRound(r => r + 1);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950 flex flex-col p-4 gap-4 overflow-y-auto">
+      <div className="flex items-center justify-between">
+        <button onClick={onClose} className="p-2 text-slate-400 hover:text-white">
+          <ArrowLeft size={20} />
+        </button>
+        <h2 className="text-lg font-bold text-white">Practice</h2>
+        <span className="text-sm font-mono text-slate-400">{tally.right}/{tally.total}</span>
+      </div>
+
+      <button onClick={play} className="mx-auto w-32 h-32 rounded-full bg-slate-900 border-2 border-slate-700 flex flex-col items-center justify-center gap-1 text-slate-300 active:bg-slate-800">
+        <Play size={32} />
+        <span className="text-xs">Feel again</span>
+      </button>
+
+      <div className="h-12 flex justify-center">
+        {pulse && <HapticPulse key={pulse.at} pattern={pulse.pattern} onDone={() => setPulse(null)} />}
+      </div>
+
+      {needsSuit && (
+        <div className="grid grid-cols-4 gap-2">
+          {SUITS.map(suit => (
+            <button
+              key={suit}
+              onClick={() => !answered && setGuessSuit(suit)}
+              className={`py-3 rounded-lg border flex justify-center ${guessSuit === suit ? 'border-blue-500 bg-blue-900/30' : 'border-slate-800 bg-slate-900'}`}
+            >
+              <SuitIcon suit={suit} className="w-6 h-6" />
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-5 gap-2">
+        {RANKS.map(rank => (
+          <button
+            key={rank}
+            onClick={() => !answered && setGuessRank(rank)}
+            className={`py-3 rounded-lg border text-lg font-bold ${guessRank === rank ? 'border-blue-500 bg-blue-900/30 text-white' : 'border-slate-800 bg-slate-900 text-slate-300'}`}
+          >
+            {getRankLabel(rank)}
+          </button>
+        ))}
+      </div>
+
+      {answered && (
+        <div className={`rounded-xl p-3 border flex items-center gap-3 ${correct ? 'bg-green-950/50 border-green-800 text-green-300' : 'bg-red-950/50 border-red-800 text-red-300'}`}>
+          {correct ? <Check size={20} /> : <X size={20} />}
+          <div className="flex-1">
+            <div className="flex items-center gap-1 font-bold">
+              {needsSuit && answer.suit && <SuitIcon suit={answer.suit} className="w-4 h-4" />}
+              {answer.rank !== null && getRankLabel(answer.rank)}
+            </div>
+            <div className="font-mono tracking-widest text-sm opacity-80">{code}</div>
+          </div>
+          <button onClick={next} className="px-4 py-2 rounded-lg bg-slate-800 text-white font-bold text-sm">Next</button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,34 @@
+import React, { useEffect, useState } from 'react';
+
+interface HapticPulseProps {
+  pattern: number[];
+  code?: string; // Shown once the pulses are over, e.g. "- -.."
+  onDone: () => void;
+}
+
+const LINGER_MS = 2500;
+
+// Visual stand-in for navigator.vibrate(): a dot lit for each "on" step of the pattern
+export const HapticPulse: React.FC<HapticPulseProps> = ({ pattern, code, onDone }) => {
+  const [step, setStep] = useState(0);
+
+  useEffect(() => {
+    if (step > pattern.length) return;
+    const timer = setTimeout(() => setStep(s => s + 1), step < pattern.length ? pattern[step] : LINGER_MS);
+    return () => clearTimeout(timer);
+  }, [step, pattern]);
+
+  useEffect(() => {
+    if (step > pattern.length) onDone();
+  }, [step, pattern.length, onDone]);
+
+  const on = step < pattern.length && step % 2 === 0;
+  const finished = step >= pattern.length;
+
+  return (
+    <div className="flex items-center gap-2 px-3 py-2 rounded-full bg-slate-900/90 border border-slate-700 shadow-lg">
+      <span className={`w-4 h-4 rounded-full transition-colors duration-75 ${on ? 'bg-amber-400 shadow-[0_0_12px] shadow-amber-400' : 'bg-slate-700'}`} />
+      {code && <span className={`font-mono text-lg font-black tracking-widest text-amber-300 ${finished ? '' : 'opacity-0'}`}>{code}</span>}
+    </div>
+  );
+};
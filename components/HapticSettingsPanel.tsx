@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { Suit } from '../types';
+import { RANKS, SUITS, SuitIcon, getRankLabel } from '../constants';
+import { DEFAULT_HAPTICS, HapticSettings, MAX_CODE_LENGTH, UNIT_OPTIONS, canVibrate, checkCodes, toPattern, vibrate } from '../services/haptics';
+import { HapticPulse } from './HapticPulse';
+import { X, Vibrate, Play, RotateCcw, GraduationCap } from 'lucide-react';
+
+interface HapticSettingsPanelProps {
+  settings: HapticSettings;
+  onChange: (settings: HapticSettings) => void;
+  onPractice: () => void;
+  onClose: () => void;
+}
+
+export const HapticSettingsPanel: React.FC<HapticSettingsPanelProps> = ({ settings, onChange, onPractice, onClose }) => {
+  // Codes are edited as a draft and only saved once they can all be told apart
+  const [ranks, setRanks] = useState(settings.ranks);
+  const [suits, setSuits] = useState(settings.suits);
+  const [pulse, setPulse] = useState<{ pattern: number[]; code: string; at: number } | null>(null);
+
+  const draft: HapticSettings = { ...settings, ranks, suits };
+  const error = checkCodes(draft);
+  const dirty = JSON.stringify(ranks) !== JSON.stringify(settings.ranks) || JSON.stringify(suits) !== JSON.stringify(settings.suits);
+
+  const preview = (code: string) => {
+    if (!code) return;
+    const pattern = toPattern(code, settings.unit);
+    if (!vibrate(pattern)) setPulse({ pattern, code, at: Date.now() });
+  };
+
+  const cleanCode = (value: string) => value.replace(/[^.-]/g, '').slice(0, MAX_CODE_LENGTH);
+
+  const codeRow = (key: string, label: React.ReactNode, code: string, onEdit: (code: string) => void) => (
+    <div key={key} className="flex items-center gap-2">
+      <span className="w-10 flex justify-center text-sm font-bold text-slate-300">{label}</span>
+      <input
+        value={code}
+        onChange={(e) => onEdit(cleanCode(e.target.value))}
+        placeholder=".-"
+        className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded p-1.5 text-white font-mono tracking-[0.3em]"
+      />
+      <button onClick={() => preview(code)} disabled={!code} title="Feel it" className="p-2 rounded bg-slate-800 text-slate-300 disabled:opacity-30">
+        <Play size={14} />
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/95 flex flex-col p-4 gap-4 overflow-y-auto">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-bold text-white flex items-center gap-2"><Vibrate size={18} /> Haptic Codes</h2>
+        <button onClick={onClose} className="p-2 text-slate-400 hover:text-white">
+          <X size={20} />
+        </button>
+      </div>
+
+      <p className="text-xs text-slate-400">
+        When your partner signals a card or writes a rank, this phone plays it as pulses: "." short, "-" long.
+        {settings.withSuit && ' Cards start with the suit, then a pause, then the rank.'}
+      </p>
+      {!canVibrate() && (
+        <p className="text-[11px] text-amber-400">This device cannot vibrate; codes blink on screen instead.</p>
+      )}
+
+      <div className="flex flex-col gap-2">
+        <label className="flex items-center justify-between text-sm text-slate-200">
+          Play codes for incoming cards and ranks
+          <input type="checkbox" checked={settings.enabled} onChange={() => onChange({ ...settings, enabled: !settings.enabled })} className="w-5 h-5 accent-blue-500" />
+        </label>
+        <label className="flex items-center justify-between text-sm text-slate-200">
+          Start cards with the suit
+          <input type="checkbox" checked={settings.withSuit} onChange={() => onChange({ ...settings, withSuit: !settings.withSuit })} className="w-5 h-5 accent-blue-500" />
+        </label>
+        <div className="flex items-center justify-between text-sm text-slate-200">
+          Short pulse
+          <div className="flex gap-1">
+            {UNIT_OPTIONS.map(unit => (
+              <button
+                key={unit}
+                onClick={() => onChange({ ...settings, unit })}
+                className={`px-2 py-1 rounded text-xs font-mono ${settings.unit === unit ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400'}`}
+              >
+                {unit}ms
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <button onClick={onPractice} className="py-2 rounded-xl bg-slate-800 font-bold text-sm flex items-center justify-center gap-2">
+        <GraduationCap size={16} /> Practice
+      </button>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2">
+        <div className="space-y-2">
+          <h3 className="text-xs font-bold text-slate-300 uppercase tracking-wider">Ranks</h3>
+          {RANKS.map(rank => codeRow(`rank-${rank}`, getRankLabel(rank), ranks[rank] || '', code => setRanks({ ...ranks, [rank]: code })))}
+        </div>
+        <div className="space-y-2">
+          <h3 className="text-xs font-bold text-slate-300 uppercase tracking-wider">Suits</h3>
+          {SUITS.map((suit: Suit) => codeRow(`suit-${suit}`, <SuitIcon suit={suit} className="w-5 h-5" />, suits[suit] || '', code => setSuits({ ...suits, [suit]: code })))}
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      <div className="flex gap-2">
+        <button onClick={() => onChange(draft)} disabled={!dirty || !!error} className="flex-1 py-2 rounded-xl bg-blue-600 text-white font-bold text-sm disabled:opacity-40">
+          Save Codes
+        </button>
+        <button
+          onClick={() => { setRanks(DEFAULT_HAPTICS.ranks); setSuits(DEFAULT_HAPTICS.suits); }}
+          className="px-4 py-2 rounded-xl bg-slate-900 border border-slate-800 text-slate-400 text-sm flex items-center gap-2"
+        >
+          <RotateCcw size={14} /> Defaults
+        </button>
+      </div>
+
+      {pulse && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2">
+          <HapticPulse key={pulse.at} pattern={pulse.pattern} code={pulse.code} onDone={() => setPulse(null)} />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import React, { useRef, useState } from 'react';
+import { decodeQrImage } from '../services/qr';
+import { ImageUp } from 'lucide-react';
+
+interface PairingCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder: string;
+}
+
+// Code textarea that also accepts the partner's QR code, either as a photo /
+// screenshot picked from the device or as an image pasted into the field.
+export const PairingCodeInput: React.FC<PairingCodeInputProps> = ({ value, onChange, placeholder }) => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [scanError, setScanError] = useState('');
+
+  const readImage = async (image: Blob) => {
+    setScanError('');
+    try {
+      const text = await decodeQrImage(image);
+      if (text) onChange(text);
+      else setScanError('No QR code found in that image.');
+    } catch (e) {
+      setScanError('Could not read that image.');
+    }
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (file) readImage(file);
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const { files } = e.clipboardData;
+    const file = files.length > 0 && files[0].type.startsWith('image/') ? files[0] : null;
+    if (!file) return; // Plain text paste
+    e.preventDefault();
+    readImage(file);
+  };
+
+  return (
+    <div className="space-y-2">
+      <textarea
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        onPaste={handlePaste}
+        placeholder={placeholder}
+        spellCheck={false}
+        autoCapitalize="characters"
+        className="w-full h-24 bg-slate-900 p-2 text-sm font-mono text-slate-200 rounded border border-slate-700 resize-none focus:border-blue-500 outline-none"
+      />
+      <input ref={fileRef} type="file" accept="image/*" onChange={handleFile} className="hidden" />
+      <button onClick={() => fileRef.current?.click()} className="w-full py-2 bg-slate-800 rounded-xl text-sm font-bold flex items-center justify-center gap-2">
+        <ImageUp size={16} /> Scan QR From Photo
+      </button>
+      {scanError && <p className="text-red-500 text-xs text-center">{scanError}</p>}
+    </div>
+  );
+};
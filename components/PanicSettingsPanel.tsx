@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { PanicSettings, requestMotionPermission } from '../services/panic';
+import { X, EyeOff } from 'lucide-react';
+
+interface PanicSettingsPanelProps {
+  settings: PanicSettings;
+  onChange: (settings: PanicSettings) => void;
+  onClose: () => void;
+}
+
+export const PanicSettingsPanel: React.FC<PanicSettingsPanelProps> = ({ settings, onChange, onClose }) => {
+  const [pin, setPin] = useState(settings.pin);
+  const [motionError, setMotionError] = useState('');
+
+  const toggleShake = async () => {
+    setMotionError('');
+    if (!settings.shake && !(await requestMotionPermission())) {
+      setMotionError('Motion sensors are not available or were not allowed.');
+      return;
+    }
+    onChange({ ...settings, shake: !settings.shake });
+  };
+
+  const savePin = () => {
+    onChange({ ...settings, pin });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/95 flex flex-col p-4 gap-4 overflow-y-auto">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-bold text-white flex items-center gap-2"><EyeOff size={18} /> Panic Hide</h2>
+        <button onClick={onClose} className="p-2 text-slate-400 hover:text-white">
+          <X size={20} />
+        </button>
+      </div>
+
+      <p className="text-xs text-slate-400">
+        Holding two fingers still anywhere in the game, or the eye button, swaps both phones to a calculator.
+        Nothing is lost: each of you unlocks your own phone to get back.
+      </p>
+
+      <div className="space-y-2">
+        <label className="text-xs font-bold text-slate-300 uppercase tracking-wider">Unlock PIN</label>
+        <div className="flex gap-2">
+          <input
+            type="password"
+            inputMode="numeric"
+            maxLength={8}
+            value={pin}
+            onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+            placeholder="None"
+            className="flex-1 bg-slate-900 border border-slate-700 rounded p-2 text-white font-mono tracking-widest"
+          />
+          <button onClick={savePin} disabled={pin === settings.pin} className="px-4 rounded bg-blue-600 text-white font-bold text-sm disabled:opacity-40">
+            Save
+          </button>
+        </div>
+        <p className="text-[11px] text-slate-500">
+          {settings.pin
+            ? `To unlock, type the PIN on the calculator and press "=".${settings.recovery ? ' Forgot it? Hold "=" for 10 seconds.' : ''}`
+            : 'Without a PIN, hold "=" on the calculator to unlock.'}
+        </p>
+      </div>
+
+      <label className="flex items-center justify-between bg-slate-900 border border-slate-800 rounded p-3">
+        <span>
+          <span className="block text-sm text-slate-200">Forgotten PIN recovery</span>
+          <span className="block text-[11px] text-slate-500">Holding "=" for 10 seconds unlocks without the PIN. Anyone who knows this can do it too.</span>
+        </span>
+        <input type="checkbox" checked={settings.recovery} onChange={() => onChange({ ...settings, recovery: !settings.recovery })} className="w-5 h-5" />
+      </label>
+
+      <label className="flex items-center justify-between bg-slate-900 border border-slate-800 rounded p-3">
+        <span className="text-sm text-slate-200">Shake phone to hide</span>
+        <input type="checkbox" checked={settings.shake} onChange={toggleShake} className="w-5 h-5" />
+      </label>
+      {motionError && <p className="text-xs text-red-400">{motionError}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,22 @@
+import React, { useMemo } from 'react';
+import { createQrMatrix } from '../services/qr';
+
+interface QrCodeProps {
+  text: string;
+  className?: string;
+}
+
+// Quiet zone around the code, in modules; scanners need it
+const MARGIN = 4;
+
+export const QrCode: React.FC<QrCodeProps> = ({ text, className }) => {
+  const qr = useMemo(() => createQrMatrix(text), [text]);
+  const side = qr.size + MARGIN * 2;
+
+  return (
+    <svg viewBox={`${-MARGIN} ${-MARGIN} ${side} ${side}`} className={className} shapeRendering="crispEdges" role="img" aria-label="QR code">
+      <rect x={-MARGIN} y={-MARGIN} width={side} height={side} fill="#fff" />
+      <path d={qr.path} fill="#000" />
+    </svg>
+  );
+};
@@ -0,0 +1,33 @@
+import React from 'react';
+import { QuickSignal } from '../types';
+import { Pencil, ScrollText } from 'lucide-react';
+
+interface QuickSignalPaletteProps {
+  signals: QuickSignal[];
+  onSend: (signal: QuickSignal) => void;
+  onEdit: () => void;
+  onShowLog: () => void;
+}
+
+// One-tap canned signals along the bottom of the game view
+export const QuickSignalPalette: React.FC<QuickSignalPaletteProps> = ({ signals, onSend, onEdit, onShowLog }) => (
+  <div className="flex items-center gap-1 px-2 py-1.5 border-t border-slate-800 bg-slate-900/90 overflow-x-auto">
+    {signals.map(signal => (
+      <button
+        key={signal.id}
+        onClick={() => onSend(signal)}
+        style={{ borderColor: signal.color, color: signal.color }}
+        className="shrink-0 px-3 py-1.5 rounded-full border text-xs font-bold bg-slate-950 active:brightness-150 whitespace-nowrap"
+      >
+        {signal.label}
+      </button>
+    ))}
+    <div className="flex-1" />
+    <button onClick={onShowLog} title="Signal log" className="shrink-0 p-1.5 text-slate-500 hover:text-white">
+      <ScrollText size={16} />
+    </button>
+    <button onClick={onEdit} title="Edit signals" className="shrink-0 p-1.5 text-slate-500 hover:text-white">
+      <Pencil size={16} />
+    </button>
+  </div>
+);
@@ -0,0 +1,98 @@
+import React from 'react';
+import { QuickSignal } from '../types';
+import { DEFAULT_QUICK_SIGNALS, MAX_SIGNALS, SIGNAL_COLORS, VIBRATION_PRESETS, presetName } from '../services/quickSignals';
+import { MAX_SIGNAL_LABEL } from '../services/protocol';
+import { createId } from '../services/oplog';
+import { X, Plus, Trash2, Vibrate, RotateCcw, Zap } from 'lucide-react';
+
+interface QuickSignalSettingsProps {
+  signals: QuickSignal[];
+  onChange: (signals: QuickSignal[]) => void;
+  onClose: () => void;
+}
+
+export const QuickSignalSettings: React.FC<QuickSignalSettingsProps> = ({ signals, onChange, onClose }) => {
+  const update = (id: string, patch: Partial<QuickSignal>) => {
+    onChange(signals.map(s => (s.id === id ? { ...s, ...patch } : s)));
+  };
+
+  const add = () => {
+    const color = SIGNAL_COLORS[signals.length % SIGNAL_COLORS.length];
+    onChange([...signals, { id: createId(), label: 'New signal', color, vibration: VIBRATION_PRESETS[0].pattern }]);
+  };
+
+  const remove = (id: string) => onChange(signals.filter(s => s.id !== id));
+
+  const preview = (signal: QuickSignal) => {
+    if (navigator.vibrate) navigator.vibrate(signal.vibration);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/95 flex flex-col p-4 gap-4 overflow-y-auto">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-bold text-white flex items-center gap-2"><Zap size={18} /> Quick Signals</h2>
+        <button onClick={onClose} className="p-2 text-slate-400 hover:text-white">
+          <X size={20} />
+        </button>
+      </div>
+
+      <p className="text-xs text-slate-400">
+        Your partner's phone flashes in the signal's colour and plays its vibration. Agree on the meanings before the game.
+      </p>
+
+      {signals.map(signal => (
+        <div key={signal.id} className="bg-slate-900 border border-slate-800 rounded-lg p-3 space-y-2">
+          <div className="flex gap-2">
+            <input
+              value={signal.label}
+              maxLength={MAX_SIGNAL_LABEL}
+              onChange={(e) => update(signal.id, { label: e.target.value })}
+              onBlur={() => { if (!signal.label.trim()) update(signal.id, { label: 'Signal' }); }}
+              style={{ color: signal.color }}
+              className="flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded p-2 text-sm font-bold"
+            />
+            <button onClick={() => remove(signal.id)} disabled={signals.length <= 1} title="Remove" className="p-2 text-slate-500 hover:text-red-400 disabled:opacity-30">
+              <Trash2 size={16} />
+            </button>
+          </div>
+          <div className="flex gap-1">
+            {SIGNAL_COLORS.map(color => (
+              <button
+                key={color}
+                onClick={() => update(signal.id, { color })}
+                style={{ backgroundColor: color }}
+                className={`w-6 h-6 rounded-full ${signal.color === color ? 'ring-2 ring-white ring-offset-2 ring-offset-slate-900' : ''}`}
+              />
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <select
+              value={presetName(signal.vibration) || ''}
+              onChange={(e) => {
+                const preset = VIBRATION_PRESETS.find(p => p.name === e.target.value);
+                if (preset) update(signal.id, { vibration: preset.pattern });
+              }}
+              className="flex-1 bg-slate-950 border border-slate-700 rounded p-2 text-sm text-slate-200"
+            >
+              {!presetName(signal.vibration) && <option value="">Custom</option>}
+              {VIBRATION_PRESETS.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+            </select>
+            <button onClick={() => preview(signal)} className="px-3 rounded bg-slate-800 text-slate-300 flex items-center gap-1 text-xs">
+              <Vibrate size={14} /> Try
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <button onClick={add} disabled={signals.length >= MAX_SIGNALS} className="flex-1 py-2 rounded-xl bg-slate-800 font-bold text-sm flex items-center justify-center gap-2 disabled:opacity-40">
+          <Plus size={16} /> Add Signal
+        </button>
+        <button onClick={() => onChange(DEFAULT_QUICK_SIGNALS)} className="px-4 py-2 rounded-xl bg-slate-900 border border-slate-800 text-slate-400 text-sm flex items-center gap-2">
+          <RotateCcw size={14} /> Defaults
+        </button>
+      </div>
+      {!navigator.vibrate && <p className="text-[11px] text-slate-500">This device cannot vibrate; signals still flash and show their label.</p>}
+    </div>
+  );
+};
@@ -0,0 +1,22 @@
+import React from 'react';
+import { getRankLabel } from '../constants';
+
+interface RankBadgeProps {
+  rank: number;
+  fromPartner: boolean;
+  onDismiss: () => void;
+}
+
+// Large overlay for a rank recognized from handwriting, on top of board and tracker
+export const RankBadge: React.FC<RankBadgeProps> = ({ rank, fromPartner, onDismiss }) => (
+  <button
+    onClick={onDismiss}
+    className={`absolute top-20 left-1/2 -translate-x-1/2 z-30 flex flex-col items-center px-8 py-3 rounded-2xl border-2 shadow-2xl backdrop-blur-sm ${
+      fromPartner ? 'bg-green-950/90 border-green-500 text-green-300' : 'bg-blue-950/90 border-blue-500 text-blue-300'
+    }`}
+  >
+    <span className="text-[10px] font-bold tracking-widest uppercase opacity-70">{fromPartner ? 'Partner wrote' : 'You wrote'}</span>
+    <span className="text-7xl font-black leading-none">{getRankLabel(rank)}</span>
+    {getRankLabel(rank) !== String(rank) && <span className="text-xs font-mono opacity-70">= {rank}</span>}
+  </button>
+);
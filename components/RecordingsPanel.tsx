@@ -0,0 +1,118 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Recording, RecordingSummary, deleteRecording, exportRecording, importRecording, listRecordings } from '../services/recorder';
+import { downloadFile, fileStamp } from '../services/files';
+import { ReplayViewer } from './ReplayViewer';
+import { X, Disc, Play, Download, Upload, Trash2 } from 'lucide-react';
+
+interface RecordingsPanelProps {
+  enabled: boolean;
+  activeId: string | null; // The recording the current game is adding to
+  onToggle: (enabled: boolean) => void;
+  onClose: () => void;
+}
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.round(ms / 60000);
+  return minutes < 1 ? '<1 min' : `${minutes} min`;
+};
+
+export const RecordingsPanel: React.FC<RecordingsPanelProps> = ({ enabled, activeId, onToggle, onClose }) => {
+  const [recordings, setRecordings] = useState<RecordingSummary[] | null>(null);
+  const [error, setError] = useState('');
+  const [opened, setOpened] = useState<Recording | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () => {
+    listRecordings().then(setRecordings).catch(() => setError('This browser cannot store recordings.'));
+  };
+
+  useEffect(refresh, [activeId]);
+
+  const exportFile = async (recording: Recording) => {
+    try {
+      const text = await exportRecording(recording);
+      downloadFile(`chkobba-${fileStamp(recording.startedAt)}.json`, new Blob([text], { type: 'application/json' }));
+    } catch (e) {
+      setError('Could not export the recording.');
+    }
+  };
+
+  const importFile = async (file: File) => {
+    setError('');
+    try {
+      await importRecording(await file.text());
+      refresh();
+    } catch (e: any) {
+      setError(e?.message || 'Could not import the recording.');
+    }
+  };
+
+  const remove = async (recording: Recording) => {
+    if (!confirm("Delete this recording?")) return;
+    await deleteRecording(recording.id).catch(() => setError('Could not delete the recording.'));
+    refresh();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/95 flex flex-col p-4 gap-4 overflow-y-auto">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-bold text-white flex items-center gap-2"><Disc size={18} /> Recordings</h2>
+        <button onClick={onClose} className="p-2 text-slate-400 hover:text-white">
+          <X size={20} />
+        </button>
+      </div>
+
+      <label className="flex items-center justify-between text-sm text-slate-200">
+        Record games on this phone
+        <input type="checkbox" checked={enabled} onChange={() => onToggle(!enabled)} className="w-5 h-5 accent-red-500" />
+      </label>
+      <p className="text-xs text-slate-400 -mt-2">
+        Keeps every stroke, ping, signal and card-tracker change with its time, to go over a game afterwards.
+        Recordings stay on this phone until you delete them.
+      </p>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <ul className="space-y-2">
+        {recordings?.map(({ recording, events, endedAt }) => (
+          <li key={recording.id} className="flex items-center gap-2 bg-slate-900/50 border border-slate-800 rounded-lg p-2">
+            <div className="flex-1 min-w-0">
+              <div className="text-sm text-slate-200 flex items-center gap-2">
+                {new Date(recording.startedAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}
+                {recording.id === activeId && <span className="text-[10px] font-bold text-red-400 animate-pulse">REC</span>}
+              </div>
+              <div className="text-[11px] text-slate-500">{formatDuration(endedAt - recording.startedAt)} · {events} events</div>
+            </div>
+            <button onClick={() => setOpened(recording)} title="Replay" className="p-2 rounded bg-blue-600 text-white">
+              <Play size={14} />
+            </button>
+            <button onClick={() => exportFile(recording)} title="Export as JSON" className="p-2 rounded bg-slate-800 text-slate-300">
+              <Download size={14} />
+            </button>
+            <button onClick={() => remove(recording)} disabled={recording.id === activeId} title="Delete" className="p-2 rounded bg-slate-800 text-red-400 disabled:opacity-30">
+              <Trash2 size={14} />
+            </button>
+          </li>
+        ))}
+      </ul>
+      {recordings?.length === 0 && <p className="text-center text-xs text-slate-600">No recordings yet.</p>}
+
+      <button onClick={() => fileRef.current?.click()} className="py-2 rounded-xl bg-slate-900 border border-slate-800 text-slate-300 text-sm flex items-center justify-center gap-2">
+        <Upload size={14} /> Import a recording
+      </button>
+      <input
+        ref={fileRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = ''; // The same file can be picked again
+          if (file) importFile(file);
+        }}
+      />
+
+      {opened && <ReplayViewer recording={opened} onClose={() => setOpened(null)} />}
+    </div>
+  );
+};
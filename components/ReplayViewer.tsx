@@ -0,0 +1,176 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { DrawingBoard } from './DrawingBoard';
+import { CardTracker } from './CardTracker';
+import { RecordedEvent, Recording, describeEvent, isSignalMessage, loadEvents, replayAt } from '../services/recorder';
+import { X, Play, Pause, SkipBack, Film, PenLine, LayoutGrid, ArrowDownLeft, ArrowUpRight } from 'lucide-react';
+
+interface ReplayViewerProps {
+  recording: Recording;
+  onClose: () => void;
+}
+
+const SPEEDS = [1, 2, 4, 8];
+
+// A signal stays up this long after it happened, about as long as in the game
+const SIGNAL_SHOW_MS = 3000;
+const SIGNAL_COLOR = '#eab308'; // Quick signals keep their own colour
+
+const NO_OP = () => {};
+const REPLAY_BRUSH = { color: '#f8fafc' };
+
+const formatOffset = (ms: number) => {
+  const s = Math.floor(ms / 1000);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+};
+
+const signalColor = (event: RecordedEvent) =>
+  event.message.type === 'QUICK_SIGNAL' ? event.message.signal.color : SIGNAL_COLOR;
+
+// Plays a recording back: the board and card tracker as they were, with the
+// signals in a list that follows the playhead. Read-only throughout.
+export const ReplayViewer: React.FC<ReplayViewerProps> = ({ recording, onClose }) => {
+  const [events, setEvents] = useState<RecordedEvent[] | null>(null);
+  const [error, setError] = useState('');
+  const [time, setTime] = useState(0); // ms since the recording started
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(SPEEDS[0]);
+  const [tab, setTab] = useState<'BOARD' | 'CARDS'>('BOARD');
+  const listRef = useRef<HTMLOListElement>(null);
+
+  useEffect(() => {
+    loadEvents(recording.id).then(setEvents).catch(() => setError('Could not read this recording.'));
+  }, [recording.id]);
+
+  const list = events || [];
+  const duration = list.length > 0 ? Math.max(0, list[list.length - 1].at - recording.startedAt) : 0;
+  const now = recording.startedAt + time;
+
+  const frame = useMemo(() => replayAt(recording, list, now), [recording, events, now]);
+  const current = list.filter(e => e.at <= now).length - 1; // Last event already played
+  const signal = [...list.slice(0, current + 1)].reverse().find(e => isSignalMessage(e.message) && now - e.at < SIGNAL_SHOW_MS);
+
+  useEffect(() => {
+    if (!playing) return;
+    let last = performance.now();
+    let handle = requestAnimationFrame(function step(t: number) {
+      const elapsed = (t - last) * speed;
+      last = t;
+      setTime(prev => Math.min(duration, prev + elapsed));
+      handle = requestAnimationFrame(step);
+    });
+    return () => cancelAnimationFrame(handle);
+  }, [playing, speed, duration]);
+
+  useEffect(() => {
+    if (playing && time >= duration) setPlaying(false);
+  }, [playing, time, duration]);
+
+  // Keep the playhead's event in view
+  useEffect(() => {
+    if (current >= 0) listRef.current?.children[current]?.scrollIntoView({ block: 'nearest' });
+  }, [current]);
+
+  const togglePlay = () => {
+    if (!playing && time >= duration) setTime(0);
+    setPlaying(p => !p);
+  };
+
+  const cycleSpeed = () => setSpeed(s => SPEEDS[(SPEEDS.indexOf(s) + 1) % SPEEDS.length]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950 flex flex-col p-4 gap-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-bold text-white flex items-center gap-2"><Film size={18} /> Replay</h2>
+          <p className="text-[11px] text-slate-500">{new Date(recording.startedAt).toLocaleString()}</p>
+        </div>
+        <button onClick={onClose} className="p-2 text-slate-400 hover:text-white">
+          <X size={20} />
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <div className="flex-1 min-h-0 flex flex-col md:flex-row gap-3">
+        <div className="flex-1 min-h-0 flex flex-col border border-slate-800 rounded-lg overflow-hidden">
+          <div className="flex border-b border-slate-800">
+            <button onClick={() => setTab('BOARD')} className={`flex-1 py-2 flex items-center justify-center gap-2 text-xs font-bold ${tab === 'BOARD' ? 'text-blue-400' : 'text-slate-500'}`}>
+              <PenLine size={14} /> BOARD
+            </button>
+            <button onClick={() => setTab('CARDS')} className={`flex-1 py-2 flex items-center justify-center gap-2 text-xs font-bold ${tab === 'CARDS' ? 'text-blue-400' : 'text-slate-500'}`}>
+              <LayoutGrid size={14} /> CARDS
+            </button>
+          </div>
+          <div className="relative flex-1 min-h-0">
+            {tab === 'BOARD' ? (
+              <DrawingBoard strokes={frame.strokes} onStrokeComplete={NO_OP} brush={REPLAY_BRUSH} placeholder="Nothing drawn yet" readOnly />
+            ) : (
+              <CardTracker
+                marks={frame.cards}
+                handsDealt={frame.handsDealt}
+                shakingCardId={signal?.message.type === 'CARD_SIGNAL' ? signal.message.cardId : null}
+                onToggleSelect={NO_OP}
+                onToggleCross={NO_OP}
+                onToggleCircle={NO_OP}
+                onSignal={NO_OP}
+                onSetFate={NO_OP}
+                onHandsDealtChange={NO_OP}
+                onReset={NO_OP}
+              />
+            )}
+            {signal && (
+              <div
+                className="absolute top-2 left-1/2 -translate-x-1/2 px-3 py-1.5 rounded-full text-sm font-bold text-white shadow-lg flex items-center gap-1.5 pointer-events-none"
+                style={{ backgroundColor: signalColor(signal) }}
+              >
+                {signal.fromPartner ? <ArrowDownLeft size={14} /> : <ArrowUpRight size={14} />}
+                {describeEvent(signal.message)}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <ol ref={listRef} className="h-40 md:h-auto md:w-72 overflow-y-auto space-y-1">
+          {list.map((event, i) => (
+            <li key={i}>
+              <button
+                onClick={() => { setPlaying(false); setTime(event.at - recording.startedAt); }}
+                className={`w-full flex items-center gap-2 text-left text-xs rounded px-2 py-1 border ${i === current ? 'border-blue-600 bg-blue-900/30' : 'border-transparent'} ${event.at <= now ? 'text-slate-200' : 'text-slate-600'}`}
+              >
+                <span className="font-mono text-[10px] text-slate-500">{formatOffset(event.at - recording.startedAt)}</span>
+                {event.fromPartner
+                  ? <ArrowDownLeft size={12} className="text-green-400 shrink-0" />
+                  : <ArrowUpRight size={12} className="text-blue-400 shrink-0" />}
+                {isSignalMessage(event.message) && <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: signalColor(event) }} />}
+                <span className={`flex-1 truncate ${isSignalMessage(event.message) ? 'font-bold' : ''}`}>{describeEvent(event.message)}</span>
+              </button>
+            </li>
+          ))}
+          {events && list.length === 0 && <li className="text-center text-xs text-slate-600">Nothing was recorded.</li>}
+        </ol>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button onClick={() => { setPlaying(false); setTime(0); }} title="Back to the start" className="p-2 rounded text-slate-400 hover:text-white">
+          <SkipBack size={18} />
+        </button>
+        <button onClick={togglePlay} disabled={duration === 0} className="p-2 rounded-full bg-blue-600 text-white disabled:opacity-40">
+          {playing ? <Pause size={18} /> : <Play size={18} />}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={duration}
+          step={100}
+          value={Math.min(time, duration)}
+          onChange={(e) => { setPlaying(false); setTime(Number(e.target.value)); }}
+          className="flex-1 accent-blue-500"
+        />
+        <span className="font-mono text-[11px] text-slate-400 w-20 text-right">{formatOffset(time)} / {formatOffset(duration)}</span>
+        <button onClick={cycleSpeed} title="Speed" className="px-2 py-1 rounded bg-slate-800 text-xs font-mono text-slate-300">
+          {speed}x
+        </button>
+      </div>
+    </div>
+  );
+};
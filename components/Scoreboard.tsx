@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { RoundTally, ScoreState, Team } from '../types';
+import { MATCH_TARGETS, TEAMS, checkRound, matchTotals, matchWinner, orderedRounds, scoreRound } from '../services/score';
+import { createId } from '../services/oplog';
+import { Plus, Minus, Pencil, Trash2, Undo2, RotateCcw, Trophy } from 'lucide-react';
+
+interface ScoreboardProps {
+  score: ScoreState;
+  canUndo: boolean;
+  onSaveRound: (round: RoundTally) => void;
+  onRemoveRound: (roundId: string) => void;
+  onUndo: () => void;
+  onTargetChange: (target: number) => void;
+  onNewMatch: () => void;
+}
+
+const TEAM_LABEL: Record<Team, string> = { US: 'Us', THEM: 'Them' };
+const TEAM_COLOR: Record<Team, string> = { US: 'text-blue-400', THEM: 'text-red-400' };
+
+// An even deal, the usual starting point when entering a round
+const newRound = (): RoundTally => ({
+  id: createId(),
+  at: Date.now(),
+  cards: 20,
+  dinari: 5,
+  sevens: 2,
+  sixes: 2,
+  haya: 'US',
+  chkobbas: { US: 0, THEM: 0 },
+});
+
+const Stepper: React.FC<{ label: string; value: number; max: number; onChange: (v: number) => void; theirs?: number }> = ({ label, value, max, onChange, theirs }) => (
+  <div className="flex items-center justify-between gap-2">
+    <span className="text-xs text-slate-300 flex-1">{label}</span>
+    <button onClick={() => onChange(Math.max(0, value - 1))} className="p-1.5 rounded bg-slate-800 text-slate-300"><Minus size={14} /></button>
+    <span className="w-8 text-center font-mono text-white">{value}</span>
+    <button onClick={() => onChange(Math.min(max, value + 1))} className="p-1.5 rounded bg-slate-800 text-slate-300"><Plus size={14} /></button>
+    {theirs !== undefined && <span className="w-12 text-right text-[10px] text-slate-500">them {theirs}</span>}
+  </div>
+);
+
+// One letter per category won, in the winner's colour
+const Breakdown: React.FC<{ round: RoundTally }> = ({ round }) => {
+  const points = scoreRound(round);
+  const chip = (label: string, team: Team | null) => (
+    <span key={label} className={`px-1 rounded bg-slate-800 ${team ? TEAM_COLOR[team] : 'text-slate-600 line-through'}`}>{label}</span>
+  );
+  return (
+    <span className="flex gap-1 text-[10px] font-bold">
+      {chip('K', points.karta)}
+      {chip('D', points.dinari)}
+      {chip('7D', points.haya)}
+      {chip('B', points.bermila)}
+      {TEAMS.map(t => points.chkobbas[t] > 0 && chip(`C×${points.chkobbas[t]}`, t))}
+    </span>
+  );
+};
+
+export const Scoreboard: React.FC<ScoreboardProps> = ({ score, canUndo, onSaveRound, onRemoveRound, onUndo, onTargetChange, onNewMatch }) => {
+  const [draft, setDraft] = useState<RoundTally | null>(null);
+
+  const totals = matchTotals(score);
+  const winner = matchWinner(score);
+  const rounds = orderedRounds(score);
+
+  const update = (patch: Partial<RoundTally>) => setDraft(d => (d ? { ...d, ...patch } : d));
+
+  const save = () => {
+    if (!draft || checkRound(draft)) return;
+    onSaveRound(draft);
+    setDraft(null);
+  };
+
+  if (draft) {
+    const problem = checkRound(draft);
+    const preview = scoreRound(draft).total;
+    const editing = score.rounds.some(r => r.id === draft.id);
+    return (
+      <div className="w-full h-full overflow-y-auto p-3 space-y-3">
+        <h3 className="text-sm font-bold text-white">{editing ? 'Edit Round' : 'New Round'} <span className="text-slate-500 font-normal">· our pile</span></h3>
+        <Stepper label="Cards (karta)" value={draft.cards} max={40} onChange={cards => update({ cards })} theirs={40 - draft.cards} />
+        <Stepper label="Dinari" value={draft.dinari} max={10} onChange={dinari => update({ dinari })} theirs={10 - draft.dinari} />
+        <Stepper label="Sevens" value={draft.sevens} max={4} onChange={sevens => update({ sevens })} theirs={4 - draft.sevens} />
+        <Stepper label="Sixes" value={draft.sixes} max={4} onChange={sixes => update({ sixes })} theirs={4 - draft.sixes} />
+
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs text-slate-300 flex-1">7 of Dinari (el haya)</span>
+          {TEAMS.map(t => (
+            <button key={t} onClick={() => update({ haya: t })} className={`px-3 py-1.5 rounded text-xs font-bold ${draft.haya === t ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400'}`}>
+              {TEAM_LABEL[t]}
+            </button>
+          ))}
+        </div>
+
+        {TEAMS.map(t => (
+          <Stepper key={t} label={`Chkobbas · ${TEAM_LABEL[t]}`} value={draft.chkobbas[t]} max={20} onChange={v => update({ chkobbas: { ...draft.chkobbas, [t]: v } })} />
+        ))}
+
+        <div className="flex items-center justify-between bg-slate-900 border border-slate-800 rounded p-2 text-sm">
+          <Breakdown round={draft} />
+          <span className="font-mono">
+            <span className={TEAM_COLOR.US}>+{preview.US}</span> / <span className={TEAM_COLOR.THEM}>+{preview.THEM}</span>
+          </span>
+        </div>
+        {problem && <p className="text-xs text-red-400">{problem}</p>}
+
+        <div className="flex gap-2">
+          <button onClick={() => setDraft(null)} className="flex-1 py-2 rounded-xl bg-slate-800 font-bold text-sm">Cancel</button>
+          <button onClick={save} disabled={!!problem} className="flex-1 py-2 rounded-xl bg-green-600 font-bold text-sm disabled:opacity-40">Save Round</button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full h-full overflow-y-auto p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex gap-1 text-[10px] font-bold">
+          {MATCH_TARGETS.map(t => (
+            <button key={t} onClick={() => onTargetChange(t)} className={`px-2 py-1 rounded border ${score.target === t ? 'border-blue-500 text-blue-400' : 'border-slate-800 text-slate-500'}`}>
+              TO {t}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          <button onClick={onUndo} disabled={!canUndo} title="Undo my last score change" className="p-1.5 rounded border border-slate-800 text-slate-400 hover:text-white disabled:opacity-30">
+            <Undo2 size={14} />
+          </button>
+          <button onClick={onNewMatch} className="flex items-center gap-1 px-2 py-1 rounded border border-slate-800 text-[10px] text-slate-500 uppercase tracking-wider hover:bg-slate-800 hover:text-white">
+            <RotateCcw size={10} /> New Match
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-center">
+        {TEAMS.map(t => (
+          <div key={t} className={`rounded-xl border p-3 ${winner === t ? 'border-yellow-500 bg-yellow-900/20' : 'border-slate-800 bg-slate-900/50'}`}>
+            <div className="text-[10px] uppercase tracking-wider text-slate-500 flex items-center justify-center gap-1">
+              {winner === t && <Trophy size={10} className="text-yellow-500" />} {TEAM_LABEL[t]}
+            </div>
+            <div className={`text-4xl font-mono font-bold ${TEAM_COLOR[t]}`}>{totals[t]}</div>
+          </div>
+        ))}
+      </div>
+
+      <button onClick={() => setDraft(newRound())} disabled={!!winner} className="w-full py-2 rounded-xl bg-blue-600 font-bold text-sm flex items-center justify-center gap-2 disabled:opacity-40">
+        <Plus size={16} /> Enter Round
+      </button>
+
+      <ol className="space-y-1">
+        {rounds.map((round, i) => {
+          const { total } = scoreRound(round);
+          return (
+            <li key={round.id} className="flex items-center gap-2 bg-slate-900/50 border border-slate-800 rounded px-2 py-1.5 text-sm">
+              <span className="w-5 text-[10px] text-slate-500">{i + 1}</span>
+              <span className="font-mono w-14">
+                <span className={TEAM_COLOR.US}>{total.US}</span> / <span className={TEAM_COLOR.THEM}>{total.THEM}</span>
+              </span>
+              <span className="flex-1"><Breakdown round={round} /></span>
+              <button onClick={() => setDraft(round)} title="Edit" className="p-1 text-slate-500 hover:text-white"><Pencil size={14} /></button>
+              <button onClick={() => onRemoveRound(round.id)} title="Delete" className="p-1 text-slate-500 hover:text-red-400"><Trash2 size={14} /></button>
+            </li>
+          );
+        })}
+      </ol>
+      {rounds.length === 0 && <p className="text-center text-xs text-slate-600">No rounds yet. Enter one after each deal.</p>}
+    </div>
+  );
+};
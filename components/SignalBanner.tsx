@@ -0,0 +1,19 @@
+import React from 'react';
+
+interface SignalBannerProps {
+  label: string;
+  color: string;
+  onDismiss: () => void;
+}
+
+// A received quick signal, in the sender's colour. Low on the screen, clear of the rank badge
+export const SignalBanner: React.FC<SignalBannerProps> = ({ label, color, onDismiss }) => (
+  <button
+    onClick={onDismiss}
+    style={{ borderColor: color, color }}
+    className="absolute bottom-28 left-1/2 -translate-x-1/2 z-30 max-w-[90vw] px-6 py-3 rounded-2xl border-2 bg-slate-950/90 shadow-2xl backdrop-blur-sm"
+  >
+    <span className="block text-[10px] font-bold tracking-widest uppercase opacity-70">Partner signals</span>
+    <span className="block text-3xl font-black leading-tight truncate">{label}</span>
+  </button>
+);
@@ -0,0 +1,43 @@
+import React from 'react';
+import { SignalLogEntry } from '../services/quickSignals';
+import { X, ScrollText, ArrowDownLeft, ArrowUpRight } from 'lucide-react';
+
+interface SignalLogProps {
+  entries: SignalLogEntry[];
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const formatTime = (at: number) =>
+  new Date(at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export const SignalLog: React.FC<SignalLogProps> = ({ entries, onClear, onClose }) => (
+  <div className="fixed inset-0 z-50 bg-slate-950/95 flex flex-col p-4 gap-4">
+    <div className="flex items-center justify-between">
+      <h2 className="text-lg font-bold text-white flex items-center gap-2"><ScrollText size={18} /> Signal Log</h2>
+      <div className="flex items-center gap-2">
+        <button onClick={onClear} disabled={entries.length === 0} className="px-3 py-1 rounded border border-slate-800 text-xs text-slate-400 hover:text-white disabled:opacity-30">
+          Clear
+        </button>
+        <button onClick={onClose} className="p-2 text-slate-400 hover:text-white">
+          <X size={20} />
+        </button>
+      </div>
+    </div>
+
+    <ol className="flex-1 overflow-y-auto space-y-1">
+      {[...entries].reverse().map((entry, i) => (
+        <li key={`${entry.at}-${i}`} className="flex items-center gap-2 text-sm bg-slate-900/50 border border-slate-800 rounded px-2 py-1.5">
+          <span className="font-mono text-[11px] text-slate-500">{formatTime(entry.at)}</span>
+          {entry.fromPartner
+            ? <ArrowDownLeft size={14} className="text-green-400 shrink-0" />
+            : <ArrowUpRight size={14} className="text-blue-400 shrink-0" />}
+          <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: entry.color }} />
+          <span className="flex-1 truncate text-slate-200">{entry.label}</span>
+          <span className="text-[10px] text-slate-600">{entry.fromPartner ? 'partner' : 'me'}</span>
+        </li>
+      ))}
+    </ol>
+    {entries.length === 0 && <p className="text-center text-xs text-slate-600">No signals yet.</p>}
+  </div>
+);
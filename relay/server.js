@@ -0,0 +1,177 @@
+// Reference signaling relay for LAN play (no internet needed).
+//
+//   node relay/server.js [port]     (default 8787)
+//
+// Then pick "LAN relay" on both phones with ws://<this-machine-ip>:8787.
+// Dependency-free: speaks just enough RFC 6455 for the app's small text
+// messages. Clients send {op:'join', room} once, then {op:'pub', topic, payload};
+// every pub is forwarded to the other sockets in the same room. A pub with
+// retain: true is also kept and sent to sockets that join the room later,
+// until the room empties or the entry is as old as a room claim.
+
+import http from 'node:http';
+import crypto from 'node:crypto';
+
+const PORT = Number(process.argv[2] || process.env.PORT || 8787);
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_PAYLOAD = 64 * 1024;
+const RETAINED_TTL_MS = 2 * 60 * 60 * 1000; // CLAIM_TTL_MS in services/roomCode.ts
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/** @type {Map<string, Set<import('node:net').Socket>>} */
+const rooms = new Map();
+/** @type {Map<string, Map<string, { payload: string, at: number }>>} room -> topic -> last retained payload */
+const retained = new Map();
+
+const encodeFrame = (text, opcode = 0x1) => {
+  const payload = Buffer.from(text);
+  let header;
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+// Returns { frames, rest } for every complete frame at the start of buf
+const decodeFrames = (buf) => {
+  const frames = [];
+  let offset = 0;
+  while (buf.length - offset >= 2) {
+    const b0 = buf[offset];
+    const b1 = buf[offset + 1];
+    let len = b1 & 0x7f;
+    let pos = offset + 2;
+    if (len === 126) {
+      if (buf.length < pos + 2) break;
+      len = buf.readUInt16BE(pos);
+      pos += 2;
+    } else if (len === 127) {
+      if (buf.length < pos + 8) break;
+      len = Number(buf.readBigUInt64BE(pos));
+      pos += 8;
+    }
+    const masked = (b1 & 0x80) !== 0;
+    const maskLen = masked ? 4 : 0;
+    if (buf.length < pos + maskLen + len) break;
+
+    const payload = Buffer.from(buf.subarray(pos + maskLen, pos + maskLen + len));
+    if (masked) {
+      const mask = buf.subarray(pos, pos + 4);
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    }
+    frames.push({ opcode: b0 & 0x0f, payload });
+    offset = pos + maskLen + len;
+  }
+  return { frames, rest: buf.subarray(offset) };
+};
+
+const leave = (socket) => {
+  const room = socket.room;
+  if (!room || !rooms.has(room)) return;
+  const peers = rooms.get(room);
+  peers.delete(socket);
+  if (peers.size === 0) {
+    rooms.delete(room);
+    retained.delete(room);
+  }
+};
+
+const sweepRetained = () => {
+  const now = Date.now();
+  for (const [room, topics] of retained) {
+    for (const [topic, { at }] of topics) {
+      if (now - at > RETAINED_TTL_MS) topics.delete(topic);
+    }
+    if (topics.size === 0) retained.delete(room);
+  }
+};
+
+const handleMessage = (socket, text) => {
+  let msg;
+  try {
+    msg = JSON.parse(text);
+  } catch (e) {
+    return;
+  }
+
+  if (msg.op === 'join' && typeof msg.room === 'string') {
+    leave(socket);
+    socket.room = msg.room;
+    if (!rooms.has(msg.room)) rooms.set(msg.room, new Set());
+    rooms.get(msg.room).add(socket);
+    for (const [topic, { payload }] of retained.get(msg.room) || []) {
+      socket.write(encodeFrame(JSON.stringify({ topic, payload })));
+    }
+    return;
+  }
+
+  if (msg.op === 'pub' && socket.room) {
+    if (msg.retain && typeof msg.topic === 'string') {
+      if (!retained.has(socket.room)) retained.set(socket.room, new Map());
+      // An empty payload clears the topic, as in MQTT
+      if (msg.payload) retained.get(socket.room).set(msg.topic, { payload: msg.payload, at: Date.now() });
+      else retained.get(socket.room).delete(msg.topic);
+    }
+    const frame = encodeFrame(JSON.stringify({ topic: msg.topic, payload: msg.payload }));
+    for (const peer of rooms.get(socket.room) || []) {
+      if (peer !== socket) peer.write(frame);
+    }
+  }
+};
+
+const server = http.createServer((req, res) => {
+  res.writeHead(200, { 'Content-Type': 'text/plain' });
+  res.end(`Chkobba signaling relay. ${rooms.size} active room(s).\n`);
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!key || req.headers.upgrade?.toLowerCase() !== 'websocket') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+
+  const accept = crypto.createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  let buffered = Buffer.alloc(0);
+  socket.on('data', (chunk) => {
+    buffered = Buffer.concat([buffered, chunk]);
+    if (buffered.length > MAX_PAYLOAD * 2) {
+      socket.destroy();
+      return;
+    }
+    const { frames, rest } = decodeFrames(buffered);
+    buffered = Buffer.from(rest);
+
+    for (const { opcode, payload } of frames) {
+      if (opcode === 0x1) handleMessage(socket, payload.toString('utf8'));
+      else if (opcode === 0x9) socket.write(encodeFrame(payload.toString('utf8'), 0xa)); // ping -> pong
+      else if (opcode === 0x8) socket.end(encodeFrame('', 0x8));
+    }
+  });
+
+  socket.on('close', () => leave(socket));
+  socket.on('error', () => leave(socket));
+});
+
+setInterval(sweepRetained, SWEEP_INTERVAL_MS).unref();
+
+server.listen(PORT, () => {
+  console.log(`Chkobba relay listening on ws://0.0.0.0:${PORT}`);
+});
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { Stroke } from '../types';
+import { boardJson, parseBoardFile } from './boardFile';
+
+const stroke = (id: string, isRemote: boolean): Stroke =>
+  ({ id, color: '#f8fafc', isRemote, points: [{ x: 0.25, y: 0.5 }, { x: 0.75, y: 0.5 }] });
+
+describe('board files', () => {
+  it('records each stroke owner and keeps it on import', () => {
+    const json = boardJson([stroke('mine', false), stroke('theirs', true)]);
+    expect(JSON.parse(json).strokes.map((s: any) => s.owner)).toEqual(['me', 'partner']);
+
+    const imported = parseBoardFile(json);
+    expect(imported.map(s => s.isRemote)).toEqual([false, true]);
+    expect(imported.map(s => s.id)).not.toContain('mine');
+  });
+
+  it('leaves out session roles and fading timers', () => {
+    const json = boardJson([{ ...stroke('imported', true), drawnBy: 'HOST' }]);
+    expect(JSON.parse(json).strokes[0]).not.toHaveProperty('drawnBy');
+    expect(JSON.parse(json).strokes[0]).not.toHaveProperty('isRemote');
+  });
+
+  it('reads the owner of version 1 files from isRemote', () => {
+    const json = JSON.stringify({ format: 'chkobba-board', version: 1, exportedAt: 0, strokes: [stroke('a', true), stroke('b', false)] });
+    expect(parseBoardFile(json).map(s => s.isRemote)).toEqual([true, false]);
+  });
+
+  it('refuses an unknown owner', () => {
+    const json = JSON.stringify({ format: 'chkobba-board', version: 2, exportedAt: 0, strokes: [{ ...stroke('a', false), owner: 'them' }] });
+    expect(() => parseBoardFile(json)).toThrow('damaged');
+  });
+});
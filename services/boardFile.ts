@@ -0,0 +1,162 @@
+import { Stroke } from '../types';
+import { BOARD_HEIGHT, BOARD_WIDTH } from './geometry';
+import { HIGHLIGHTER_ALPHA, PARTNER_MARK_COLOR, SUIT_PATHS, drawStroke, isSuitStamp, lineStampPath, strokeWidth, suitTransform } from './brush';
+import { inkOpacity } from './fadingInk';
+import { createId } from './oplog';
+import { isStroke } from './protocol';
+
+// The board as a file: an SVG or PNG picture for reference sheets, and a JSON
+// snapshot that imports back onto a board. The SVG embeds the same snapshot in
+// its <metadata>, so a saved picture can be imported too. Pictures show both
+// players' strokes, the partner's with their ring, as the board draws them.
+//
+// Every stroke records its owner as the exporter saw it. Importing keeps it:
+// the exporter's partner's strokes become the importer's partner's, ringed on
+// both phones, though the importer is the one who sends and can undo them.
+
+export const PNG_SCALES = [1, 2, 4]; // Times the board size in pixels
+
+// The board's own colour: white ink would vanish on a transparent picture
+const BACKGROUND = '#0f172a';
+
+const FILE_FORMAT = 'chkobba-board';
+const FILE_VERSION = 2; // v2: `owner` instead of isRemote
+const METADATA_ID = 'chkobba-board';
+
+// More than a dense sheet ever needs; each one is a message to the partner
+export const MAX_IMPORT_STROKES = 500;
+
+export type StrokeOwner = 'me' | 'partner'; // From the exporter's side
+
+// drawnBy names a role in the exporter's session, which means nothing elsewhere
+type FileStroke = Omit<Stroke, 'isRemote' | 'drawnBy'> & { owner: StrokeOwner };
+
+interface BoardFile {
+  format: typeof FILE_FORMAT;
+  version: number;
+  exportedAt: number;
+  strokes: FileStroke[];
+}
+
+/** What is on the board right now. Fading ink still showing is kept, without its timer. */
+export const exportableStrokes = (strokes: Stroke[], clockOffset: number): Stroke[] => {
+  const now = Date.now();
+  return strokes
+    .filter(s => inkOpacity(s, now, clockOffset) > 0)
+    .map(({ ttl, createdAt, ...stroke }) => stroke);
+};
+
+// Highlighters go under the ink, as on the board
+const paintOrder = (strokes: Stroke[]) => [...strokes.filter(s => s.highlighter), ...strokes.filter(s => !s.highlighter)];
+
+export const boardJson = (strokes: Stroke[]): string => {
+  const file: BoardFile = {
+    format: FILE_FORMAT,
+    version: FILE_VERSION,
+    exportedAt: Date.now(),
+    strokes: strokes.map(({ isRemote, drawnBy, ...stroke }) => ({ ...stroke, owner: isRemote ? 'partner' : 'me' })),
+  };
+  return JSON.stringify(file);
+};
+
+// --- SVG ---
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const n = (v: number) => Math.round(v * 10) / 10;
+
+const strokeSvg = (stroke: Stroke): string => {
+  if (stroke.points.length === 0) return '';
+  const color = escapeXml(stroke.color);
+  const width = strokeWidth(stroke);
+  const attrs = `data-owner="${stroke.isRemote ? 'partner' : 'me'}"${stroke.highlighter ? ` opacity="${HIGHLIGHTER_ALPHA}"` : ''}`;
+  let shape = '';
+
+  if (isSuitStamp(stroke)) {
+    const { x, y, scale } = suitTransform(stroke, BOARD_WIDTH, BOARD_HEIGHT);
+    shape = `<path d="${SUIT_PATHS[stroke.stamp!]}" transform="translate(${n(x)} ${n(y)}) scale(${scale.toFixed(3)})" fill="${color}" ${attrs}/>`;
+  } else if (stroke.stamp) {
+    shape = `<path d="${lineStampPath(stroke, BOARD_WIDTH, BOARD_HEIGHT)}" stroke="${color}" stroke-width="${width}" ${attrs}/>`;
+  } else if (stroke.points.length >= 2) {
+    const d = stroke.points.map((p, i) => `${i === 0 ? 'M' : 'L'}${n(p.x * BOARD_WIDTH)} ${n(p.y * BOARD_HEIGHT)}`).join('');
+    shape = `<path d="${d}" stroke="${color}" stroke-width="${width}" ${attrs}/>`;
+  }
+
+  if (!stroke.isRemote) return shape;
+  const first = stroke.points[0];
+  return shape + `<circle cx="${n(first.x * BOARD_WIDTH)}" cy="${n(first.y * BOARD_HEIGHT)}" r="${width / 2 + 4}" stroke="${PARTNER_MARK_COLOR}" stroke-width="2"/>`;
+};
+
+/** A vector picture of the board in board units, with the snapshot inside for importing. */
+export const boardSvg = (strokes: Stroke[]): string => [
+  `<svg xmlns="http://www.w3.org/2000/svg" width="${BOARD_WIDTH}" height="${BOARD_HEIGHT}" viewBox="0 0 ${BOARD_WIDTH} ${BOARD_HEIGHT}">`,
+  `<metadata id="${METADATA_ID}">${escapeXml(boardJson(strokes))}</metadata>`,
+  `<rect width="100%" height="100%" fill="${BACKGROUND}"/>`,
+  `<g fill="none" stroke-linecap="round" stroke-linejoin="round">`,
+  ...paintOrder(strokes).map(strokeSvg),
+  `</g>`,
+  `</svg>`,
+].join('\n');
+
+// --- PNG ---
+
+/** The board drawn at `scale` times its size, as on screen. */
+export const boardPng = (strokes: Stroke[], scale: number): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = BOARD_WIDTH * scale;
+  canvas.height = BOARD_HEIGHT * scale;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new Error('Could not draw the picture.'));
+
+  ctx.fillStyle = BACKGROUND;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.scale(scale, scale);
+  paintOrder(strokes).forEach(s => drawStroke(ctx, s, BOARD_WIDTH, BOARD_HEIGHT));
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not draw the picture.'))), 'image/png');
+  });
+};
+
+// --- Import ---
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+const isOwner = (v: unknown): v is StrokeOwner => v === 'me' || v === 'partner';
+
+/**
+ * The strokes in an exported JSON or SVG file, ready to draw: new ids, so
+ * importing twice never clashes, points kept on the board, and isRemote set
+ * for the ones the exporter's partner drew. Throws with a readable message on
+ * anything else.
+ */
+export const parseBoardFile = (text: string): Stroke[] => {
+  let json = text;
+  if (text.trimStart().startsWith('<')) {
+    const doc = new DOMParser().parseFromString(text, 'image/svg+xml');
+    const metadata = doc.getElementById(METADATA_ID);
+    if (!metadata) throw new Error('Only boards exported from this app can be imported; this SVG has no strokes in it.');
+    json = metadata.textContent || '';
+  }
+
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new Error('Not a board file.');
+  }
+  if (!data || data.format !== FILE_FORMAT || !Array.isArray(data.strokes)) throw new Error('Not a board file.');
+  if (data.version > FILE_VERSION) throw new Error('This board comes from a newer version. Reload to update.');
+  // Version 1 files said isRemote instead of owner
+  const owners = data.strokes.map((s: any) => (s?.owner === undefined ? (s?.isRemote ? 'partner' : 'me') : s.owner));
+  if (!data.strokes.every(isStroke) || !owners.every(isOwner)) throw new Error('The board file is damaged.');
+  if (data.strokes.length > MAX_IMPORT_STROKES) throw new Error(`Too many strokes to import (over ${MAX_IMPORT_STROKES}).`);
+
+  return (data.strokes as (Stroke & { owner?: StrokeOwner })[]).map(({ ttl, createdAt, drawnBy, owner, ...stroke }, i) => ({
+    ...stroke,
+    id: createId(),
+    isRemote: owners[i] === 'partner',
+    points: stroke.points.map(p => ({ x: clamp01(p.x), y: clamp01(p.y) })),
+  }));
+};
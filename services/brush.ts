@@ -0,0 +1,163 @@
+import { DrawingTool, StampShape, Stroke, StrokeStyle } from '../types';
+
+// The drawing palette and how a stroke looks on a canvas. Everything that
+// sets a stroke's look travels in the stroke itself, so both boards render
+// it the same way; only ownership is drawn per device.
+
+export const INK_COLORS = ['#3b82f6', '#22c55e', '#eab308', '#ef4444', '#a855f7', '#f8fafc'];
+export const PEN_WIDTHS = [3, 6, 12];
+export const STAMPS: StampShape[] = ['CIRCLE', 'CROSS', 'ARROW', 'DINARI', 'KOB', 'BSTONI', 'SBATI'];
+
+export const DEFAULT_WIDTH = 6;
+export const MAX_STROKE_WIDTH = 48;
+export const HIGHLIGHTER_WIDTH = 24;
+export const HIGHLIGHTER_ALPHA = 0.35;
+
+// A stamp tapped without dragging still gets a readable size
+export const MIN_STAMP_RADIUS = 18; // Board units
+
+// Partner strokes keep their colours; a ring on their first point tells them apart
+export const PARTNER_MARK_COLOR = '#22c55e';
+
+export interface BrushSettings {
+  color: string;
+  width: number; // Pen and stamp outline
+  stamp: StampShape;
+}
+
+export const DEFAULT_BRUSH: BrushSettings = { color: INK_COLORS[0], width: DEFAULT_WIDTH, stamp: 'CIRCLE' };
+
+const BRUSH_KEY = 'chkobba_brush';
+
+export const loadBrush = (): BrushSettings => {
+  try {
+    const saved = localStorage.getItem(BRUSH_KEY);
+    return saved ? { ...DEFAULT_BRUSH, ...JSON.parse(saved) } : DEFAULT_BRUSH;
+  } catch (e) {
+    return DEFAULT_BRUSH;
+  }
+};
+
+export const saveBrush = (brush: BrushSettings) => {
+  localStorage.setItem(BRUSH_KEY, JSON.stringify(brush));
+};
+
+/** Scales a pen width by stylus pressure (0-1); a normal press, 0.5, keeps it. */
+export const pressureWidth = (width: number, pressure: number): number =>
+  Math.max(1, Math.min(MAX_STROKE_WIDTH, Math.round(width * (0.5 + pressure))));
+
+/** What a new stroke drawn with `tool` carries. Only the pen follows stylus pressure. */
+export const styleFor = (tool: DrawingTool, brush: BrushSettings, pressure?: number): StrokeStyle => {
+  if (tool === 'HIGHLIGHTER') return { color: brush.color, width: HIGHLIGHTER_WIDTH, highlighter: true };
+  if (tool === 'STAMP') return { color: brush.color, width: brush.width, stamp: brush.stamp };
+  return { color: brush.color, width: pressure === undefined ? brush.width : pressureWidth(brush.width, pressure) };
+};
+
+export const strokeWidth = (stroke: StrokeStyle): number => stroke.width ?? DEFAULT_WIDTH;
+
+// --- Stamps ---
+
+// Suit outlines from lucide (24x24), the icons SuitIcon shows
+export const SUIT_PATHS: Record<string, string> = {
+  DINARI: 'M2.7 10.3a2.41 2.41 0 0 0 0 3.41l7.59 7.59a2.41 2.41 0 0 0 3.41 0l7.59-7.59a2.41 2.41 0 0 0 0-3.41l-7.59-7.59a2.41 2.41 0 0 0-3.41 0Z',
+  BSTONI: 'M17.28 9.05a5.5 5.5 0 1 0-10.56 0A5.5 5.5 0 1 0 12 17.66a5.5 5.5 0 1 0 5.28-8.6Z M11 17.66h2V22h-2Z',
+  KOB: 'M2 9.5a5.5 5.5 0 0 1 9.591-3.676.56.56 0 0 0 .818 0A5.49 5.49 0 0 1 22 9.5c0 2.29-1.5 4-3 5.5l-5.492 5.313a2 2 0 0 1-3 .019L5 15c-1.5-1.5-3-3.2-3-5.5',
+  SBATI: 'M2 14.499a5.5 5.5 0 0 0 9.591 3.675.6.6 0 0 1 .818.001A5.5 5.5 0 0 0 22 14.5c0-2.29-1.5-4-3-5.5l-5.492-5.312a2 2 0 0 0-3-.02L5 8.999c-1.5 1.5-3 3.2-3 5.5 M11 18h2v4h-2Z',
+};
+
+export interface StampGeometry {
+  cx: number; cy: number; // Anchor
+  tx: number; ty: number; // Drag end
+  radius: number;
+}
+
+/** Where a stamp lands on a board of the given size, in the same units. */
+export const stampGeometry = (stroke: Stroke, width: number, height: number): StampGeometry => {
+  const a = stroke.points[0];
+  const b = stroke.points[stroke.points.length - 1];
+  const cx = a.x * width, cy = a.y * height;
+  const tx = b.x * width, ty = b.y * height;
+  return { cx, cy, tx, ty, radius: Math.max(MIN_STAMP_RADIUS, Math.hypot(tx - cx, ty - cy)) };
+};
+
+/** Circle, cross and arrow stamps as SVG path data, stroked. Suits are filled from SUIT_PATHS instead. */
+export const lineStampPath = (stroke: Stroke, width: number, height: number): string => {
+  const { cx, cy, tx, ty, radius } = stampGeometry(stroke, width, height);
+  const n = (v: number) => Math.round(v * 10) / 10;
+  switch (stroke.stamp) {
+    case 'CIRCLE':
+      return `M${n(cx + radius)} ${n(cy)}A${n(radius)} ${n(radius)} 0 1 0 ${n(cx - radius)} ${n(cy)}A${n(radius)} ${n(radius)} 0 1 0 ${n(cx + radius)} ${n(cy)}`;
+    case 'CROSS': {
+      const r = radius * 0.7;
+      return `M${n(cx - r)} ${n(cy - r)}L${n(cx + r)} ${n(cy + r)}M${n(cx + r)} ${n(cy - r)}L${n(cx - r)} ${n(cy + r)}`;
+    }
+    default: {
+      // Dragged from the tail to the head. A tap points up at the tapped spot
+      const tapped = tx === cx && ty === cy;
+      const sx = cx, sy = tapped ? cy + MIN_STAMP_RADIUS * 2 : cy;
+      const angle = Math.atan2(ty - sy, tx - sx);
+      const head = Math.max(12, strokeWidth(stroke) * 3);
+      const wing = (side: number) => `${n(tx - head * Math.cos(angle + side * Math.PI / 6))} ${n(ty - head * Math.sin(angle + side * Math.PI / 6))}`;
+      return `M${n(sx)} ${n(sy)}L${n(tx)} ${n(ty)}M${wing(-1)}L${n(tx)} ${n(ty)}L${wing(1)}`;
+    }
+  }
+};
+
+/** Where a suit stamp's 24x24 outline goes: translate, then scale. */
+export const suitTransform = (stroke: Stroke, width: number, height: number) => {
+  const { cx, cy, radius } = stampGeometry(stroke, width, height);
+  return { x: cx - radius, y: cy - radius, scale: (radius * 2) / 24 };
+};
+
+export const isSuitStamp = (stroke: Stroke): boolean => !!stroke.stamp && stroke.stamp in SUIT_PATHS;
+
+// --- Canvas ---
+
+const drawStamp = (ctx: CanvasRenderingContext2D, stroke: Stroke, width: number, height: number) => {
+  if (!isSuitStamp(stroke)) {
+    ctx.stroke(new Path2D(lineStampPath(stroke, width, height)));
+    return;
+  }
+  const { x, y, scale } = suitTransform(stroke, width, height);
+  ctx.save();
+  ctx.translate(x, y);
+  ctx.scale(scale, scale);
+  ctx.fill(new Path2D(SUIT_PATHS[stroke.stamp!]));
+  ctx.restore();
+};
+
+/** Draws one stroke at the context's current globalAlpha. */
+export const drawStroke = (ctx: CanvasRenderingContext2D, stroke: Stroke, width: number, height: number) => {
+  if (stroke.points.length === 0) return;
+  const alpha = ctx.globalAlpha;
+
+  ctx.strokeStyle = stroke.color;
+  ctx.fillStyle = stroke.color;
+  ctx.lineWidth = strokeWidth(stroke);
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  if (stroke.highlighter) ctx.globalAlpha = alpha * HIGHLIGHTER_ALPHA;
+
+  if (stroke.stamp) {
+    drawStamp(ctx, stroke, width, height);
+  } else if (stroke.points.length >= 2) {
+    ctx.beginPath();
+    const first = stroke.points[0];
+    ctx.moveTo(first.x * width, first.y * height);
+    for (let i = 1; i < stroke.points.length; i++) {
+      const p = stroke.points[i];
+      ctx.lineTo(p.x * width, p.y * height);
+    }
+    ctx.stroke();
+  }
+
+  ctx.globalAlpha = alpha;
+  if (stroke.isRemote) {
+    const first = stroke.points[0];
+    ctx.beginPath();
+    ctx.strokeStyle = PARTNER_MARK_COLOR;
+    ctx.lineWidth = 2;
+    ctx.arc(first.x * width, first.y * height, strokeWidth(stroke) / 2 + 4, 0, Math.PI * 2);
+    ctx.stroke();
+  }
+};
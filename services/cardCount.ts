@@ -0,0 +1,64 @@
+import { CardMarks, CardFate } from '../types';
+import { RANKS, generateDeck } from '../constants';
+
+// "What's left" in the current deal, from the fates marked on the tracker.
+// A card with no fate is unseen: still in the stock or in someone else's hand.
+//
+// Four players in two teams: 4 cards open the table, then every hand deals
+// 3 cards to each player until the 40-card deck runs out.
+
+const PLAYERS = 4;
+const HAND_SIZE = 3;
+const OPENING_TABLE = 4;
+
+const DECK = generateDeck();
+
+export const HAYA_ID = 'DINARI-7';
+
+export const HANDS_PER_DEAL = (DECK.length - OPENING_TABLE) / (PLAYERS * HAND_SIZE);
+
+export type HayaStatus = 'UNSEEN' | 'ON_TABLE' | 'MY_HAND' | 'PARTNER_HAND' | 'OURS' | 'THEIRS';
+
+export interface Remaining {
+  byRank: Record<number, number>; // Unseen cards of each rank, 0-4
+  dinari: number;                 // Unseen Dinari
+  haya: HayaStatus;
+  hayaLive: boolean;              // Not captured yet, so still up for grabs
+  unseen: number;
+  leftToDeal: number;             // Still in the stock
+}
+
+const hayaStatus = (marks: CardMarks | undefined): HayaStatus => {
+  const fates: Record<CardFate, HayaStatus> = {
+    PLAYED: 'ON_TABLE',
+    OURS: 'OURS',
+    THEIRS: 'THEIRS',
+    HAND: marks?.heldByMe ? 'MY_HAND' : 'PARTNER_HAND',
+  };
+  return marks?.fate ? fates[marks.fate] : 'UNSEEN';
+};
+
+export const countRemaining = (marks: Record<string, CardMarks>, handsDealt: number): Remaining => {
+  const byRank: Record<number, number> = {};
+  RANKS.forEach(rank => { byRank[rank] = 0; });
+  let dinari = 0;
+  let unseen = 0;
+
+  DECK.forEach(card => {
+    if (marks[card.id]?.fate) return;
+    byRank[card.rank]++;
+    if (card.suit === 'DINARI') dinari++;
+    unseen++;
+  });
+
+  const haya = hayaStatus(marks[HAYA_ID]);
+  const dealt = OPENING_TABLE + Math.min(handsDealt, HANDS_PER_DEAL) * PLAYERS * HAND_SIZE;
+  return {
+    byRank,
+    dinari,
+    haya,
+    hayaLive: haya !== 'OURS' && haya !== 'THEIRS',
+    unseen,
+    leftToDeal: DECK.length - dealt,
+  };
+};
@@ -0,0 +1,124 @@
+// Connection state machine for an ongoing game.
+// Pure: App feeds it events (heartbeats, ICE states, timers) and runs the
+// side effect that belongs to each phase.
+//
+//   CONNECTING ──▶ CONNECTED ──STALL──▶ STALLED ──TIMEOUT/LOST──▶ ICE_RESTART
+//                     ▲                                              │ TIMEOUT
+//                     │                                              ▼
+//                     └──────────── RESIGNALING ◀──RETRY_DUE── BACKOFF (n)
+//                                        │ TIMEOUT (n+1 > max) ──▶ FAILED
+//
+// CONNECTED is reachable from every phase: ICE often heals by itself.
+
+export type ConnectionPhase =
+  | 'IDLE'
+  | 'CONNECTING'
+  | 'CONNECTED'
+  | 'STALLED'      // Heartbeats missing or ICE disconnected; giving it a moment
+  | 'ICE_RESTART'  // Restarting ICE on the existing RTCPeerConnection
+  | 'BACKOFF'      // Waiting before the next full re-signaling attempt
+  | 'RESIGNALING'  // New RTCPeerConnection, new offer/answer
+  | 'FAILED';
+
+export interface ConnectionState {
+  phase: ConnectionPhase;
+  attempt: number;       // Full re-signaling attempts since the last CONNECTED
+  retryDelay: number;    // ms, only meaningful in BACKOFF
+  canResignal: boolean;  // False in manual mode: there is no channel to re-signal over
+}
+
+export type ConnectionEvent =
+  | { type: 'START'; canResignal: boolean }
+  | { type: 'CONNECTED' }
+  | { type: 'STALL' }     // Soft: heartbeat missed, ICE "disconnected"
+  | { type: 'LOST' }      // Hard: ICE "failed", or back from background with a dead link
+  | { type: 'TIMEOUT' }   // The current phase ran out of time
+  | { type: 'RETRY_DUE' }
+  | { type: 'RETRY' }     // User asked to try again
+  | { type: 'STOP' };
+
+export const HEARTBEAT_INTERVAL_MS = 3000;
+export const HEARTBEAT_TIMEOUT_MS = 3 * HEARTBEAT_INTERVAL_MS + 1000;
+export const STALL_GRACE_MS = 4000;
+export const ICE_RESTART_TIMEOUT_MS = 12000;
+export const RESIGNAL_TIMEOUT_MS = 20000;
+export const MAX_RESIGNAL_ATTEMPTS = 6;
+
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 30000;
+
+export const INITIAL_CONNECTION: ConnectionState = {
+  phase: 'IDLE',
+  attempt: 0,
+  retryDelay: 0,
+  canResignal: false,
+};
+
+/** Exponential backoff with +-20% jitter, so two phones don't retry in lockstep. */
+export const backoffDelay = (attempt: number): number => {
+  const base = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+  return Math.round(base * (0.8 + Math.random() * 0.4));
+};
+
+const backoff = (state: ConnectionState, attempt: number): ConnectionState =>
+  attempt >= MAX_RESIGNAL_ATTEMPTS
+    ? { ...state, phase: 'FAILED', attempt }
+    : { ...state, phase: 'BACKOFF', attempt, retryDelay: backoffDelay(attempt) };
+
+export const connectionReducer = (state: ConnectionState, event: ConnectionEvent): ConnectionState => {
+  switch (event.type) {
+    case 'START':
+      return { ...INITIAL_CONNECTION, phase: 'CONNECTING', canResignal: event.canResignal };
+    case 'STOP':
+      return INITIAL_CONNECTION;
+    case 'CONNECTED':
+      // Same object when nothing changes, so per-message CONNECTED events don't re-render
+      return state.phase === 'CONNECTED' ? state : { ...state, phase: 'CONNECTED', attempt: 0, retryDelay: 0 };
+  }
+
+  switch (state.phase) {
+    case 'CONNECTED':
+      if (event.type === 'STALL') return { ...state, phase: 'STALLED' };
+      if (event.type === 'LOST') return state.canResignal ? { ...state, phase: 'ICE_RESTART' } : { ...state, phase: 'STALLED' };
+      return state;
+
+    case 'STALLED':
+      if (event.type === 'TIMEOUT' || event.type === 'LOST') {
+        return state.canResignal ? { ...state, phase: 'ICE_RESTART' } : { ...state, phase: 'FAILED' };
+      }
+      return state;
+
+    case 'ICE_RESTART':
+      if (event.type === 'TIMEOUT') return backoff(state, 0);
+      return state;
+
+    case 'BACKOFF':
+      if (event.type === 'RETRY_DUE') return { ...state, phase: 'RESIGNALING' };
+      return state;
+
+    case 'RESIGNALING':
+      if (event.type === 'TIMEOUT') return backoff(state, state.attempt + 1);
+      return state;
+
+    case 'FAILED':
+      if (event.type === 'RETRY' && state.canResignal) return backoff(state, 0);
+      return state;
+
+    default:
+      return state;
+  }
+};
+
+/** Short, user-facing description of a phase. */
+export const describePhase = (state: ConnectionState): string => {
+  switch (state.phase) {
+    case 'CONNECTING': return 'Connecting...';
+    case 'CONNECTED': return 'Connected';
+    case 'STALLED': return 'Partner not responding...';
+    case 'ICE_RESTART': return 'Restoring link...';
+    case 'BACKOFF': return `Retrying in ${Math.ceil(state.retryDelay / 1000)}s (attempt ${state.attempt + 1}/${MAX_RESIGNAL_ATTEMPTS})`;
+    case 'RESIGNALING': return `Reconnecting (attempt ${state.attempt + 1}/${MAX_RESIGNAL_ATTEMPTS})...`;
+    case 'FAILED': return state.canResignal ? 'Connection lost' : 'Connection lost. Manual pairing must be redone.';
+    default: return '';
+  }
+};
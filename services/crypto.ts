@@ -0,0 +1,175 @@
+import { ECPoint, G, N, add, bigIntToBytes, bytesToBigInt, decodePoint, encodePoint, hexToBytes, mod, multiply, negate } from './p256';
+
+// --- SPAKE2 (RFC 9382) over P-256 ---
+// The room code is a low-entropy password. SPAKE2 turns it into a strong
+// shared key: an eavesdropper on the broker learns nothing it can brute-force
+// offline, and an active attacker gets exactly one guess per join attempt.
+
+export type SpakeRole = 'HOST' | 'JOINER';
+
+// Fixed points from RFC 9382 section 6 (nobody knows their discrete log)
+const M = decodePoint(hexToBytes('02886e2f97ace46e55ba9dd7242579f2993b64e16ef3dcab95afd497333d8fa12f'));
+const N_POINT = decodePoint(hexToBytes('03d8bbd6c639c62937b04d997f38c3770719c629d7014d49a24b4f98baa1292b49'));
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export interface SessionKeys {
+  signalingKey: CryptoKey; // Seals SDP / ICE on the public broker
+  dataKey: CryptoKey;      // Seals messages on the data channel
+}
+
+export interface SpakeExchange {
+  share: string; // Base64 point to publish to the peer
+  finish: (peerShare: string) => Promise<SessionKeys>;
+}
+
+// --- Base64 helpers ---
+
+export const toBase64 = (bytes: Uint8Array): string => {
+  let bin = '';
+  bytes.forEach(b => { bin += String.fromCharCode(b); });
+  return btoa(bin);
+};
+
+export const fromBase64 = (b64: string): Uint8Array => {
+  const bin = atob(b64);
+  const out = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i);
+  return out;
+};
+
+const randomScalar = (): bigint => {
+  // 48 bytes so the reduction mod N is unbiased enough
+  const bytes = crypto.getRandomValues(new Uint8Array(48));
+  const k = mod(bytesToBigInt(bytes), N);
+  return k === 0n ? 1n : k;
+};
+
+// Password to scalar. PBKDF2 only slows down an attacker who already broke the
+// exchange; the protocol itself prevents offline guessing.
+const passwordScalar = async (code: string): Promise<bigint> => {
+  const base = await crypto.subtle.importKey('raw', encoder.encode(code.trim().toLowerCase()), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt: encoder.encode('chkobba-spake2-v1'), iterations: 50000, hash: 'SHA-256' },
+    base,
+    384
+  );
+  return mod(bytesToBigInt(new Uint8Array(bits)), N);
+};
+
+// Length-prefixed concatenation so no two transcripts collide
+const transcript = (parts: Uint8Array[]): Uint8Array => {
+  const total = parts.reduce((sum, p) => sum + 8 + p.length, 0);
+  const out = new Uint8Array(total);
+  const view = new DataView(out.buffer);
+  let offset = 0;
+  for (const p of parts) {
+    view.setUint32(offset, p.length, true); // 64-bit little endian, high word stays 0
+    out.set(p, offset + 8);
+    offset += 8 + p.length;
+  }
+  return out;
+};
+
+const deriveSessionKeys = async (secret: ArrayBuffer): Promise<SessionKeys> => {
+  const hkdf = await crypto.subtle.importKey('raw', secret, 'HKDF', false, ['deriveKey']);
+  const derive = (info: string) => crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: encoder.encode(info) },
+    hkdf,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+  return {
+    signalingKey: await derive('chkobba signaling'),
+    dataKey: await derive('chkobba data'),
+  };
+};
+
+/**
+ * Starts one SPAKE2 exchange for `role` with the shared room code.
+ * Publish `share`, then call `finish` with the peer's share. Use a fresh
+ * exchange for every attempt; a wrong code only shows up later as a
+ * failed `openBox`.
+ */
+export const startSpake2 = async (role: SpakeRole, code: string): Promise<SpakeExchange> => {
+  const w = await passwordScalar(code);
+  const secret = randomScalar();
+  const ownBlind = role === 'HOST' ? M : N_POINT;
+  const peerBlind = role === 'HOST' ? N_POINT : M;
+
+  const share = add(multiply(secret, G), multiply(w, ownBlind)) as ECPoint;
+  const shareBytes = encodePoint(share);
+
+  const finish = async (peerShare: string): Promise<SessionKeys> => {
+    const peerBytes = fromBase64(peerShare);
+    const peerPoint = decodePoint(peerBytes);
+    const K = multiply(secret, add(peerPoint, negate(multiply(w, peerBlind))));
+    if (!K) throw new Error('Degenerate key exchange');
+
+    const [hostShare, joinerShare] = role === 'HOST' ? [shareBytes, peerBytes] : [peerBytes, shareBytes];
+    const tt = transcript([
+      encoder.encode('host'),
+      encoder.encode('joiner'),
+      hostShare,
+      joinerShare,
+      encodePoint(K),
+      bigIntToBytes(w, 32),
+    ]);
+    return deriveSessionKeys(await crypto.subtle.digest('SHA-256', tt));
+  };
+
+  return { share: toBase64(shareBytes), finish };
+};
+
+// --- Authenticated encryption (AES-GCM) ---
+
+export interface SealedBox {
+  iv: string; // Base64, 12 bytes
+  ct: string; // Base64 ciphertext + tag
+}
+
+/**
+ * Encrypts and authenticates `plaintext`. `label` is bound as additional data
+ * so a box sealed for one purpose (e.g. "offer") cannot be replayed as another.
+ */
+export const sealBox = async (key: CryptoKey, plaintext: string, label: string): Promise<SealedBox> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ct = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(label) },
+    key,
+    encoder.encode(plaintext)
+  );
+  return { iv: toBase64(iv), ct: toBase64(new Uint8Array(ct)) };
+};
+
+/** Decrypts a box from `sealBox`. Throws if the key, label or content don't match. */
+export const openBox = async (key: CryptoKey, box: SealedBox, label: string): Promise<string> => {
+  const pt = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(box.iv), additionalData: encoder.encode(label) },
+    key,
+    fromBase64(box.ct)
+  );
+  return decoder.decode(pt);
+};
+
+/** Binary counterpart of sealBox: returns IV || ciphertext. */
+export const sealBytes = async (key: CryptoKey, plaintext: Uint8Array, label: string): Promise<Uint8Array> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ct = await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData: encoder.encode(label) }, key, plaintext);
+  const out = new Uint8Array(iv.length + ct.byteLength);
+  out.set(iv);
+  out.set(new Uint8Array(ct), iv.length);
+  return out;
+};
+
+/** Decrypts the output of sealBytes. Throws like openBox. */
+export const openBytes = async (key: CryptoKey, sealed: Uint8Array, label: string): Promise<Uint8Array> => {
+  const pt = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: sealed.subarray(0, 12), additionalData: encoder.encode(label) },
+    key,
+    sealed.subarray(12)
+  );
+  return new Uint8Array(pt);
+};
@@ -0,0 +1,70 @@
+import { Stroke } from '../types';
+
+// "Fading ink": strokes that expire on both screens a fixed time after the
+// drawer created them. A fading stroke carries the drawer's creation time
+// (their clock) and its time to live; each device converts that to its own
+// clock with the estimated offset from the partner's heartbeats.
+
+export const FADING_TTL_OPTIONS = [5000, 10000, 30000]; // ms; tapping the tool cycles Off -> these
+
+// The stroke dims over its last FADE_OUT_MS before disappearing
+const FADE_OUT_MS = 1500;
+
+const CLOCK_SAMPLES = 10;
+
+/**
+ * When a stroke disappears, in this device's Date.now() terms, or null if it
+ * never does. `clockOffset` is partner clock minus ours.
+ */
+export const expiresAt = (stroke: Stroke, clockOffset: number): number | null => {
+  if (stroke.ttl === undefined || stroke.createdAt === undefined) return null;
+  return stroke.createdAt - (stroke.isRemote ? clockOffset : 0) + stroke.ttl;
+};
+
+/** 1 while fresh, falling to 0 at expiry. */
+export const inkOpacity = (stroke: Stroke, now: number, clockOffset: number): number => {
+  const end = expiresAt(stroke, clockOffset);
+  if (end === null) return 1;
+  const fade = Math.min(FADE_OUT_MS, stroke.ttl! / 2);
+  return Math.max(0, Math.min(1, (end - now) / fade));
+};
+
+/**
+ * Tracks partner clock minus ours from timestamps on their messages.
+ * Each sample is the true offset minus that message's delivery delay, so the
+ * largest recent sample is the best estimate.
+ */
+export const createClockEstimator = () => {
+  let samples: number[] = [];
+  return {
+    add: (partnerTime: number): number => {
+      samples = [...samples.slice(-(CLOCK_SAMPLES - 1)), partnerTime - Date.now()];
+      return Math.max(...samples);
+    },
+    reset: () => { samples = []; },
+  };
+};
+
+// --- Preference (per device) ---
+
+export interface InkSettings {
+  ttl: number | null; // null: strokes stay until cleared
+  holdToKeep: boolean; // Keep a partner's fading stroke while my finger is on it
+}
+
+const SETTINGS_KEY = 'chkobba_ink';
+
+export const DEFAULT_INK: InkSettings = { ttl: null, holdToKeep: true };
+
+export const loadInkSettings = (): InkSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return saved ? { ...DEFAULT_INK, ...JSON.parse(saved) } : DEFAULT_INK;
+  } catch (e) {
+    return DEFAULT_INK;
+  }
+};
+
+export const saveInkSettings = (settings: InkSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
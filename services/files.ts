@@ -0,0 +1,21 @@
+// Files the user saves or opens, e.g. exported recordings
+
+/** Hands `blob` to the browser as a download called `name`. */
+export const downloadFile = (name: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers read the URL after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/** A filesystem-safe timestamp for file names, e.g. 2024-05-01_21-30. */
+export const fileStamp = (at: number): string => {
+  const d = new Date(at);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}_${pad(d.getHours())}-${pad(d.getMinutes())}`;
+};
@@ -0,0 +1,73 @@
+import { Point, Stroke } from '../types';
+import { stampGeometry, strokeWidth } from './brush';
+
+// Geometry on normalized board points. Distances are measured in the units of
+// the size passed in (board units, see below), never in raw 0-1 coordinates,
+// so both axes count the same.
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+// --- Shared board ---
+//
+// Both phones draw on one logical board of fixed aspect ratio, fitted into
+// whatever space each screen has. Points are 0-1 across this board, and stroke
+// widths and stamp sizes are in its units, so a circle stays round and lines
+// keep their weight on any screen, in either orientation.
+
+export const BOARD_WIDTH = 360;
+export const BOARD_HEIGHT = 480;
+export const BOARD_SIZE: Size = { width: BOARD_WIDTH, height: BOARD_HEIGHT };
+
+export interface BoardFit {
+  left: number;   // CSS px within the available space
+  top: number;
+  width: number;
+  height: number;
+  scale: number;  // CSS px per board unit
+}
+
+/** The largest board that fits in width x height, centred; the rest is letterbox. */
+export const fitBoard = (width: number, height: number): BoardFit => {
+  const scale = Math.max(0, Math.min(width / BOARD_WIDTH, height / BOARD_HEIGHT));
+  const fitted = { width: BOARD_WIDTH * scale, height: BOARD_HEIGHT * scale };
+  return { left: (width - fitted.width) / 2, top: (height - fitted.height) / 2, ...fitted, scale };
+};
+
+/** Normalized points in board units, undistorted, e.g. for the recognizer. */
+export const toBoardUnits = (points: Point[]): Point[] =>
+  points.map(p => ({ x: p.x * BOARD_WIDTH, y: p.y * BOARD_HEIGHT }));
+
+const distanceToSegment = (p: Point, a: Point, b: Point, size: Size): number => {
+  const px = p.x * size.width, py = p.y * size.height;
+  const ax = a.x * size.width, ay = a.y * size.height;
+  const bx = b.x * size.width, by = b.y * size.height;
+  const dx = bx - ax, dy = by - ay;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSq));
+  return Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+};
+
+/** Distance to the stroke's centre line; stamps other than arrows count as filled discs. */
+export const distanceToStroke = (p: Point, stroke: Stroke, size: Size): number => {
+  const pts = stroke.points;
+  if (pts.length === 0) return Infinity;
+  if (stroke.stamp && stroke.stamp !== 'ARROW') {
+    const { cx, cy, radius } = stampGeometry(stroke, size.width, size.height);
+    return Math.max(0, Math.hypot(p.x * size.width - cx, p.y * size.height - cy) - radius);
+  }
+  if (pts.length === 1) return distanceToSegment(p, pts[0], pts[0], size);
+  let best = Infinity;
+  for (let i = 1; i < pts.length; i++) best = Math.min(best, distanceToSegment(p, pts[i - 1], pts[i], size));
+  return best;
+};
+
+/** The topmost (last drawn) stroke whose edge is within `tolerance` pixels of p, if any. */
+export const hitTestStrokes = (strokes: Stroke[], p: Point, tolerance: number, size: Size): Stroke | null => {
+  for (let i = strokes.length - 1; i >= 0; i--) {
+    if (distanceToStroke(p, strokes[i], size) - strokeWidth(strokes[i]) / 2 <= tolerance) return strokes[i];
+  }
+  return null;
+};
@@ -0,0 +1,112 @@
+import { Suit } from '../types';
+import { RANKS, SUITS } from '../constants';
+
+// Eyes-free codes: a rank or card the partner points at is played as a run of
+// short and long pulses, so it can be read with the phone face down or in a
+// pocket. Codes are written like Morse ('.' short, '-' long) and live on the
+// receiving phone, since that is where they are felt.
+
+export interface HapticSettings {
+  enabled: boolean;   // Play codes for incoming ranks and cards instead of the generic buzz
+  withSuit: boolean;  // Cards start with their suit code, then a pause, then the rank
+  unit: number;       // Length of a short pulse, ms. Long pulses and pauses scale from it
+  ranks: Record<number, string>;
+  suits: Record<Suit, string>;
+}
+
+export const UNIT_OPTIONS = [80, 120, 160, 220];
+
+// Counting in fives: a long pulse is five, a short one is one
+export const DEFAULT_HAPTICS: HapticSettings = {
+  enabled: false,
+  withSuit: true,
+  unit: 120,
+  ranks: { 1: '.', 2: '..', 3: '...', 4: '....', 5: '-', 6: '-.', 7: '-..', 8: '-...', 9: '-....', 10: '--' },
+  suits: { DINARI: '-', KOB: '.', BSTONI: '..', SBATI: '--' },
+};
+
+export const MAX_CODE_LENGTH = 6;
+
+const SETTINGS_KEY = 'chkobba_haptics';
+
+export const loadHapticSettings = (): HapticSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return saved ? { ...DEFAULT_HAPTICS, ...JSON.parse(saved) } : DEFAULT_HAPTICS;
+  } catch (e) {
+    return DEFAULT_HAPTICS;
+  }
+};
+
+export const saveHapticSettings = (settings: HapticSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/** Some browsers (iOS Safari) have no Vibration API at all; those get the visual fallback. */
+export const canVibrate = (): boolean => typeof navigator !== 'undefined' && typeof navigator.vibrate === 'function';
+
+/** Vibrates if the device can; false means the caller should show the pulses instead. */
+export const vibrate = (pattern: number[]): boolean => {
+  if (!canVibrate()) return false;
+  navigator.vibrate(pattern);
+  return true;
+};
+
+const isCode = (code: string) => /^[.-]+$/.test(code) && code.length <= MAX_CODE_LENGTH;
+
+/** Returns why the codes can't be told apart, or null if they are usable. */
+export const checkCodes = (settings: HapticSettings): string | null => {
+  const groups: [string, [string, string][]][] = [
+    ['rank', RANKS.map(r => [String(r), settings.ranks[r]])],
+    ['suit', SUITS.map(s => [s, settings.suits[s]])],
+  ];
+  for (const [kind, entries] of groups) {
+    const seen = new Map<string, string>();
+    for (const [name, code] of entries) {
+      if (!code || !isCode(code)) return `The ${kind} code for ${name} must be 1 to ${MAX_CODE_LENGTH} dots and dashes.`;
+      if (seen.has(code)) return `${seen.get(code)} and ${name} have the same ${kind} code.`;
+      seen.set(code, name);
+    }
+  }
+  return null;
+};
+
+// --- Encoding ---
+
+const LONG = 3;      // Units per long pulse
+const GAP = 1;       // Units between pulses of one code
+const SEPARATOR = 5; // Units between the suit and the rank
+
+/** Code of a card id such as "DINARI-7": suit, a space, rank. Rank only without withSuit. */
+export const cardCode = (cardId: string, settings: HapticSettings): string => {
+  const [suit, rank] = cardId.split('-');
+  const rankCode = settings.ranks[Number(rank)];
+  return settings.withSuit ? `${settings.suits[suit as Suit]} ${rankCode}` : rankCode;
+};
+
+export const rankCode = (rank: number, settings: HapticSettings): string => settings.ranks[rank];
+
+/** Turns a code into a navigator.vibrate() pattern: on, off, on, ... */
+export const toPattern = (code: string, unit: number): number[] => {
+  const pattern: number[] = [];
+  code.split(' ').forEach((group, g) => {
+    if (g > 0) pattern.push(unit * SEPARATOR);
+    [...group].forEach((symbol, i) => {
+      if (i > 0) pattern.push(unit * GAP);
+      pattern.push(symbol === '-' ? unit * LONG : unit);
+    });
+  });
+  return pattern;
+};
+
+// --- Decoding ---
+
+/** Finds the suit and rank a code stands for; either is null when the code doesn't match. */
+export const decodeCode = (code: string, settings: HapticSettings): { suit: Suit | null; rank: number | null } => {
+  const groups = code.trim().split(/\s+/);
+  const rankPart = groups[groups.length - 1];
+  const suitPart = groups.length > 1 ? groups[0] : null;
+  const rank = RANKS.find(r => settings.ranks[r] === rankPart) ?? null;
+  const suit = suitPart === null ? null : SUITS.find(s => settings.suits[s] === suitPart) ?? null;
+  return { suit, rank };
+};
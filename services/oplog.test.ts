@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { Point } from '../types';
+import { OpLog, SyncReply, appendLocal, applySnapshot, createLog, deriveBoard, integrate, joinSnapshot, missingFor } from './oplog';
+import { MAX_MESSAGE_BYTES, sealedSize } from './protocol';
+
+// A deterministic scribble that compresses about as badly as real handwriting
+const scribble = (seed: number, count: number): Point[] => {
+  let x = seed % 997;
+  return Array.from({ length: count }, () => {
+    x = (x * 7919 + 104729) % 1000003;
+    return { x: (x % 10007) / 10007, y: (x % 9973) / 9973 };
+  });
+};
+
+const drawStrokes = (log: OpLog, count: number, points: number, color = '#f8fafc'): OpLog => {
+  for (let i = 0; i < count; i++) {
+    log = appendLocal(log, { type: 'SYNC_STROKE', stroke: { id: `stroke-${i}`, color, isRemote: false, points: scribble(i, points) } }).log;
+  }
+  return log;
+};
+
+const wireBytes = (reply: SyncReply) => sealedSize(new TextEncoder().encode(JSON.stringify(reply)).length);
+
+const snapshotParts = (replies: SyncReply[]) => replies.flatMap(r => (r.type === 'SYNC_SNAPSHOT' ? [r] : []));
+const batches = (replies: SyncReply[]) => replies.flatMap(r => (r.type === 'SYNC_OPS' ? [r.ops] : []));
+
+describe('missingFor', () => {
+  it('sends nothing to a partner that is up to date', () => {
+    const log = drawStrokes(createLog('HOST'), 3, 10);
+    expect(missingFor(log, log.vector)).toEqual([]);
+  });
+
+  it('sends only the Ops past the partner vector', () => {
+    const log = drawStrokes(createLog('HOST'), 5, 10);
+    const ops = batches(missingFor(log, { HOST: 3, JOINER: 0 })).flat();
+    expect(ops.map(op => op.message.seq)).toEqual([4, 5]);
+  });
+
+  it('keeps every batch within the limit once sealed', () => {
+    const log = drawStrokes(createLog('HOST'), 200, 120);
+    const replies = missingFor(log, { HOST: 0, JOINER: 0 });
+    expect(replies.length).toBeGreaterThan(1);
+    replies.forEach(r => expect(wireBytes(r)).toBeLessThanOrEqual(MAX_MESSAGE_BYTES));
+    expect(batches(replies).flat()).toEqual(log.ops);
+  });
+
+  it('measures text in UTF-8 bytes, not characters', () => {
+    const log = drawStrokes(createLog('HOST'), 150, 60, 'é'.repeat(400));
+    missingFor(log, { HOST: 0, JOINER: 0 }).forEach(r => expect(wireBytes(r)).toBeLessThanOrEqual(MAX_MESSAGE_BYTES));
+  });
+
+  it('sends the compacted base in parts that each fit, then the Ops', () => {
+    const log = drawStrokes(createLog('HOST'), 400, 150);
+    expect(log.base.vector.HOST).toBeGreaterThan(0);
+
+    const replies = missingFor(log, { HOST: 0, JOINER: 0 });
+    const parts = snapshotParts(replies);
+    expect(parts.length).toBeGreaterThan(1);
+    expect(replies.slice(0, parts.length)).toEqual(parts);
+    expect(parts.map(p => p.part)).toEqual(parts.map((_, i) => i));
+    replies.forEach(r => expect(wireBytes(r)).toBeLessThanOrEqual(MAX_MESSAGE_BYTES));
+
+    const snapshot = joinSnapshot(parts.map(p => p.data), parts[0].parts);
+    expect(snapshot).toEqual(log.base);
+
+    // A fresh partner ends up with the same board
+    let partner = applySnapshot(createLog('JOINER'), snapshot!);
+    partner = integrate(partner, batches(replies).flat());
+    expect(deriveBoard(partner)).toEqual(deriveBoard(log));
+    expect(partner.vector).toEqual(log.vector);
+  });
+});
+
+describe('joinSnapshot', () => {
+  const parts = () => {
+    const log = drawStrokes(createLog('HOST'), 400, 150);
+    return snapshotParts(missingFor(log, { HOST: 0, JOINER: 0 })).map(p => p.data);
+  };
+
+  it('refuses a set with a part missing', () => {
+    const data = parts();
+    const holed = [...data];
+    delete holed[1];
+    expect(joinSnapshot(holed, data.length)).toBeNull();
+    expect(joinSnapshot(data.slice(1), data.length)).toBeNull();
+  });
+
+  it('refuses data that is not a snapshot', () => {
+    expect(joinSnapshot(['not base64 at all'], 1)).toBeNull();
+    expect(joinSnapshot([''], 1)).toBeNull();
+  });
+});
@@ -0,0 +1,350 @@
+import LZString from 'lz-string';
+import { BoardSnapshot, BoardState, CardMarks, Op, PeerRole, SharedCardMarks, SignalMessage, Stroke, SyncedMessage, VersionVector } from '../types';
+import { DEFAULT_SCORE } from './score';
+import { MAX_PLAIN_BYTES, isSnapshot } from './protocol';
+
+// Operation log behind the shared board, card tracker and scorekeeper.
+//
+// Every state change is an Op stamped with the author's `seq` and a Lamport
+// clock. Both devices keep every Op they know (their own and the partner's)
+// and derive the visible state by replaying them in (lamport, author) order,
+// so two logs holding the same Ops always render the same board, whatever
+// order the Ops arrived in. After a reconnect each side sends its version
+// vector and gets back exactly the Ops it is missing.
+//
+// Old Ops are folded into `base` to bound the log. A partner that is behind
+// the base gets the base as a snapshot first, in as many parts as it takes.
+
+export interface OpLog {
+  self: PeerRole;
+  base: BoardSnapshot;
+  ops: Op[];            // Not folded into base yet, in replay order
+  vector: VersionVector;
+  lamport: number;
+  nextSeq: number;      // Our next own seq
+}
+
+export type SyncReply = Extract<SignalMessage, { type: 'SYNC_SNAPSHOT' | 'SYNC_OPS' }>;
+
+const MAX_LOG_OPS = 300;
+
+const encoder = new TextEncoder();
+const byteLength = (value: unknown) => encoder.encode(JSON.stringify(value)).length;
+
+// Replies are sized as the JSON that gets sealed, so they fit once sealed too.
+// Snapshot data is base64, which JSON never escapes, so its length is its size;
+// the margin covers the other fields
+const SNAPSHOT_PART_CHARS = MAX_PLAIN_BYTES - 128;
+
+const PARTNER: Record<PeerRole, PeerRole> = { HOST: 'JOINER', JOINER: 'HOST' };
+
+export const EMPTY_BOARD: BoardState = { strokes: [], cards: {}, handsDealt: 1, score: DEFAULT_SCORE };
+
+const emptyVector = (): VersionVector => ({ HOST: 0, JOINER: 0 });
+
+export const createLog = (self: PeerRole): OpLog => ({
+  self,
+  base: { state: EMPTY_BOARD, vector: emptyVector(), lamport: 0 },
+  ops: [],
+  vector: emptyVector(),
+  lamport: 0,
+  nextSeq: 1,
+});
+
+/** Globally unique id, e.g. for strokes. */
+export const createId = (): string => {
+  if (typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+  // randomUUID needs a secure context, which plain-HTTP LAN testing lacks
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const compareOps = (a: Op, b: Op): number =>
+  a.message.lamport - b.message.lamport || (a.author < b.author ? -1 : a.author > b.author ? 1 : 0);
+
+const opKey = (op: Op) => `${op.author}:${op.message.seq}`;
+
+const isKnown = (log: OpLog, keys: Set<string>, op: Op): boolean =>
+  op.message.seq <= log.base.vector[op.author] || keys.has(opKey(op));
+
+// Highest seq per author such that every seq up to it is known
+const contiguousVector = (base: VersionVector, ops: Op[]): VersionVector => {
+  const vector = { ...base };
+  const keys = new Set(ops.map(opKey));
+  (['HOST', 'JOINER'] as PeerRole[]).forEach(author => {
+    while (keys.has(`${author}:${vector[author] + 1}`)) vector[author]++;
+  });
+  return vector;
+};
+
+// --- Replay ---
+
+// Mutates `board`, a copy owned by replay
+const applyOp = (board: BoardState, op: Op) => {
+  const { strokes, cards, score } = board;
+  const m = op.message;
+  const card = (id: string): SharedCardMarks => {
+    if (!cards[id]) cards[id] = { selectedBy: {}, crossed: false, circled: false };
+    return cards[id];
+  };
+
+  switch (m.type) {
+    case 'SYNC_STROKE':
+      strokes.push({ author: op.author, stroke: m.stroke });
+      break;
+    case 'STROKE_REMOVE':
+    case 'STROKE_RESTORE': {
+      // Strokes already wiped by CLEAR_BOARD stay gone
+      const i = strokes.findIndex(s => s.stroke.id === m.strokeId);
+      if (i >= 0) strokes[i] = { ...strokes[i], removed: m.type === 'STROKE_REMOVE' };
+      break;
+    }
+    case 'CLEAR_BOARD':
+      strokes.length = 0;
+      break;
+    case 'RESET':
+      Object.keys(cards).forEach(id => delete cards[id]);
+      board.handsDealt = 1;
+      break;
+    case 'CARD_SELECT': {
+      const c = card(m.cardId);
+      cards[m.cardId] = { ...c, selectedBy: { ...c.selectedBy, [op.author]: m.value } };
+      break;
+    }
+    case 'CARD_CROSS':
+      cards[m.cardId] = { ...card(m.cardId), crossed: m.value };
+      break;
+    case 'CARD_CIRCLE':
+      cards[m.cardId] = { ...card(m.cardId), circled: m.value };
+      break;
+    case 'CARD_FATE': {
+      const { fate, holder, ...rest } = card(m.cardId);
+      cards[m.cardId] = m.fate ? { ...rest, fate: m.fate, ...(m.fate === 'HAND' ? { holder: op.author } : {}) } : rest;
+      break;
+    }
+    case 'HANDS_DEALT':
+      board.handsDealt = m.value;
+      break;
+    case 'SCORE_ROUND': {
+      // An edit keeps the round where it was in the history
+      const i = score.rounds.findIndex(r => r.id === m.round.id);
+      if (i >= 0) score.rounds[i] = m.round;
+      else score.rounds.push(m.round);
+      break;
+    }
+    case 'SCORE_REMOVE':
+      score.rounds = score.rounds.filter(r => r.id !== m.roundId);
+      break;
+    case 'SCORE_TARGET':
+      score.target = m.target;
+      break;
+    case 'SCORE_RESET':
+      score.rounds = [];
+      break;
+  }
+};
+
+const replay = (state: BoardState, ops: Op[]): BoardState => {
+  // Logs and snapshots saved by older builds lack the newer fields
+  const score = state.score || DEFAULT_SCORE;
+  const board: BoardState = {
+    strokes: [...state.strokes],
+    cards: { ...state.cards },
+    handsDealt: state.handsDealt ?? EMPTY_BOARD.handsDealt,
+    score: { ...score, rounds: [...score.rounds] },
+  };
+  ops.forEach(op => applyOp(board, op));
+  return board;
+};
+
+export const deriveBoard = (log: OpLog): BoardState => replay(log.base.state, log.ops);
+
+/** The board after `ops`, in any order, on top of `state`. For recordings, which keep Ops outside a log. */
+export const replayOps = (state: BoardState, ops: Op[]): BoardState => replay(state, [...ops].sort(compareOps));
+
+// --- Views for one device ---
+
+// Strokes keep the colour they were drawn with; isRemote is what marks the partner's.
+// An imported stroke is the partner's if they drew it on the exported board
+export const viewStrokes = (board: BoardState, self: PeerRole): Stroke[] =>
+  board.strokes.filter(s => !s.removed).map(({ author, stroke }) => ({ ...stroke, isRemote: (stroke.drawnBy ?? author) !== self }));
+
+export const viewCardMarks = (board: BoardState, self: PeerRole): Record<string, CardMarks> => {
+  const marks: Record<string, CardMarks> = {};
+  Object.entries(board.cards).forEach(([id, c]) => {
+    marks[id] = {
+      selectedByMe: !!c.selectedBy[self],
+      selectedByPartner: !!c.selectedBy[PARTNER[self]],
+      crossed: c.crossed,
+      circled: c.circled,
+      fate: c.fate || null,
+      heldByMe: c.fate === 'HAND' && c.holder === self,
+    };
+  });
+  return marks;
+};
+
+// --- Mutations (all pure, returning a new log) ---
+
+// Folds the oldest contiguous Ops into the base once the log grows too long
+const compact = (log: OpLog): OpLog => {
+  if (log.ops.length <= MAX_LOG_OPS) return log;
+
+  const foldCount = log.ops.length - MAX_LOG_OPS / 2;
+  const folded: Op[] = [];
+  let i = 0;
+  // Only fold a prefix covered by the contiguous vector, or a late Op could vanish
+  for (; i < log.ops.length && folded.length < foldCount; i++) {
+    const op = log.ops[i];
+    if (op.message.seq > log.vector[op.author]) break;
+    folded.push(op);
+  }
+  if (folded.length === 0) return log;
+
+  const vector = { ...log.base.vector };
+  folded.forEach(op => { vector[op.author] = Math.max(vector[op.author], op.message.seq); });
+
+  return {
+    ...log,
+    base: {
+      state: replay(log.base.state, folded),
+      vector,
+      lamport: Math.max(log.base.lamport, ...folded.map(op => op.message.lamport)),
+    },
+    ops: log.ops.slice(folded.length),
+  };
+};
+
+// A SyncedMessage before appendLocal stamps it
+type Unstamp<M> = M extends SyncedMessage ? Omit<M, 'seq' | 'lamport'> : never;
+export type Unstamped = Unstamp<SyncedMessage>;
+
+/** Stamps and records one of our own changes. Send the returned message to the partner. */
+export const appendLocal = (log: OpLog, unstamped: Unstamped): { log: OpLog; message: SyncedMessage } => {
+  const lamport = log.lamport + 1;
+  const message = { ...unstamped, seq: log.nextSeq, lamport } as SyncedMessage;
+  const op: Op = { author: log.self, message };
+  const next: OpLog = {
+    ...log,
+    ops: [...log.ops, op],
+    vector: { ...log.vector, [log.self]: Math.max(log.vector[log.self], message.seq) },
+    lamport,
+    nextSeq: log.nextSeq + 1,
+  };
+  return { log: compact(next), message };
+};
+
+/** The incoming Ops the log does not know yet, each once. */
+export const freshOps = (log: OpLog, incoming: Op[]): Op[] => {
+  const keys = new Set(log.ops.map(opKey));
+  return incoming.filter(op => {
+    if (isKnown(log, keys, op)) return false;
+    keys.add(opKey(op));
+    return true;
+  });
+};
+
+/** Merges Ops from anywhere (live messages, sync replies). Duplicates are ignored. */
+export const integrate = (log: OpLog, incoming: Op[]): OpLog => {
+  const fresh = freshOps(log, incoming);
+  if (fresh.length === 0) return log;
+
+  const ops = [...log.ops, ...fresh].sort(compareOps);
+  // Our own Ops can come back from the partner after we lost local storage
+  const ownSeqs = fresh.filter(op => op.author === log.self).map(op => op.message.seq);
+
+  return compact({
+    ...log,
+    ops,
+    vector: contiguousVector(log.base.vector, ops),
+    lamport: Math.max(log.lamport, ...fresh.map(op => op.message.lamport)),
+    nextSeq: Math.max(log.nextSeq, ...ownSeqs.map(s => s + 1)),
+  });
+};
+
+/** Adopts a partner's snapshot that is ahead of our base, keeping any Ops it doesn't cover. */
+export const applySnapshot = (log: OpLog, snapshot: BoardSnapshot): OpLog => {
+  const ahead = (['HOST', 'JOINER'] as PeerRole[]).some(a => snapshot.vector[a] > log.base.vector[a]);
+  if (!ahead) return log;
+
+  const ops = log.ops.filter(op => op.message.seq > snapshot.vector[op.author]);
+  return {
+    ...log,
+    base: snapshot,
+    ops,
+    vector: contiguousVector(snapshot.vector, ops),
+    lamport: Math.max(log.lamport, snapshot.lamport),
+    nextSeq: Math.max(log.nextSeq, snapshot.vector[log.self] + 1),
+  };
+};
+
+/**
+ * Everything the partner is missing given their version vector, as replies
+ * that each fit in one data channel message, sealed or not.
+ */
+export const missingFor = (log: OpLog, theirs: VersionVector): SyncReply[] => {
+  const behindBase = (['HOST', 'JOINER'] as PeerRole[]).some(a => theirs[a] < log.base.vector[a]);
+  const ops = behindBase ? log.ops : log.ops.filter(op => op.message.seq > theirs[op.author]);
+  const replies: SyncReply[] = [];
+
+  if (behindBase) {
+    const data = LZString.compressToBase64(JSON.stringify(log.base));
+    const parts = Math.max(1, Math.ceil(data.length / SNAPSHOT_PART_CHARS));
+    for (let part = 0; part < parts; part++) {
+      replies.push({ type: 'SYNC_SNAPSHOT', part, parts, data: data.slice(part * SNAPSHOT_PART_CHARS, (part + 1) * SNAPSHOT_PART_CHARS) });
+    }
+  }
+
+  // The JSON of a batch is its envelope plus each Op and a comma between them
+  const emptySize = byteLength({ type: 'SYNC_OPS', ops: [] });
+  let current: Op[] = [];
+  let size = emptySize;
+  ops.forEach(op => {
+    const opSize = byteLength(op);
+    // An Op too big on its own still goes, alone; sendMessage reports the failure
+    if (current.length > 0 && size + 1 + opSize > MAX_PLAIN_BYTES) {
+      replies.push({ type: 'SYNC_OPS', ops: current });
+      current = [];
+      size = emptySize;
+    }
+    size += opSize + (current.length > 0 ? 1 : 0);
+    current.push(op);
+  });
+  if (current.length > 0) replies.push({ type: 'SYNC_OPS', ops: current });
+  return replies;
+};
+
+/** The snapshot from a complete set of SYNC_SNAPSHOT parts, or null if any is missing or damaged. */
+export const joinSnapshot = (parts: string[], count: number): BoardSnapshot | null => {
+  // Array.from turns the hole a lost part leaves into undefined; every() alone skips holes
+  if (parts.length !== count || !Array.from(parts).every(p => typeof p === 'string')) return null;
+  try {
+    const snapshot = JSON.parse(LZString.decompressFromBase64(parts.join(''))) as unknown;
+    return isSnapshot(snapshot) ? snapshot : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+// --- Persistence (survives a page reload) ---
+
+const STORAGE_KEY = 'chkobba_board';
+
+export const saveLog = (code: string, log: OpLog) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ code, log }));
+  } catch (e) {
+    console.warn("Could not persist board", e); // Quota: the partner can still resync us
+  }
+};
+
+/** The saved log, only if it belongs to this session and role. */
+export const loadLog = (code: string, self: PeerRole): OpLog | null => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (saved?.code === code && saved.log?.self === self) return saved.log;
+  } catch (e) {}
+  return null;
+};
+
+export const clearSavedLog = () => localStorage.removeItem(STORAGE_KEY);
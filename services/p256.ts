@@ -0,0 +1,138 @@
+// Minimal NIST P-256 arithmetic on BigInt.
+// WebCrypto only exposes whole ECDH/ECDSA operations, but SPAKE2 needs raw
+// point addition and scalar multiplication, so we do those ourselves.
+// Not constant time: fine for a short-lived pairing exchange, not for long-term keys.
+
+export interface ECPoint {
+  x: bigint;
+  y: bigint;
+}
+
+// null is the point at infinity
+export type MaybePoint = ECPoint | null;
+
+export const P = 0xffffffff00000001000000000000000000000000ffffffffffffffffffffffffn;
+export const N = 0xffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551n;
+const A = P - 3n;
+const B = 0x5ac635d8aa3a93e7b3ebbd55769886bc651d06b0cc53b0f63bce3c3e27d2604bn;
+
+export const G: ECPoint = {
+  x: 0x6b17d1f2e12c4247f8bce6e563a440f277037d812deb33a0f4a13945d898c296n,
+  y: 0x4fe342e2fe1a7f9b8ee7eb4a7c0f9e162bce33576b315ececbb6406837bf51f5n,
+};
+
+export const mod = (a: bigint, m: bigint = P): bigint => {
+  const r = a % m;
+  return r >= 0n ? r : r + m;
+};
+
+const modPow = (base: bigint, exp: bigint, m: bigint): bigint => {
+  let result = 1n;
+  let b = mod(base, m);
+  let e = exp;
+  while (e > 0n) {
+    if (e & 1n) result = (result * b) % m;
+    b = (b * b) % m;
+    e >>= 1n;
+  }
+  return result;
+};
+
+// Extended Euclid, much faster than Fermat inversion on BigInt
+const modInv = (a: bigint, m: bigint = P): bigint => {
+  let [oldR, r] = [mod(a, m), m];
+  let [oldS, s] = [1n, 0n];
+  while (r !== 0n) {
+    const q = oldR / r;
+    [oldR, r] = [r, oldR - q * r];
+    [oldS, s] = [s, oldS - q * s];
+  }
+  if (oldR !== 1n) throw new Error('Value is not invertible');
+  return mod(oldS, m);
+};
+
+const curveRhs = (x: bigint): bigint => mod(x * x * x + A * x + B);
+
+export const isOnCurve = (pt: ECPoint): boolean =>
+  pt.x >= 0n && pt.x < P && pt.y >= 0n && pt.y < P && mod(pt.y * pt.y) === curveRhs(pt.x);
+
+export const negate = (pt: MaybePoint): MaybePoint => (pt ? { x: pt.x, y: mod(-pt.y) } : null);
+
+export const add = (p1: MaybePoint, p2: MaybePoint): MaybePoint => {
+  if (!p1) return p2;
+  if (!p2) return p1;
+
+  let lambda: bigint;
+  if (p1.x === p2.x) {
+    if (mod(p1.y + p2.y) === 0n) return null;
+    lambda = mod((3n * p1.x * p1.x + A) * modInv(2n * p1.y));
+  } else {
+    lambda = mod((p2.y - p1.y) * modInv(p2.x - p1.x));
+  }
+
+  const x = mod(lambda * lambda - p1.x - p2.x);
+  const y = mod(lambda * (p1.x - x) - p1.y);
+  return { x, y };
+};
+
+export const multiply = (k: bigint, pt: MaybePoint): MaybePoint => {
+  let result: MaybePoint = null;
+  let addend = pt;
+  let e = mod(k, N);
+  while (e > 0n) {
+    if (e & 1n) result = add(result, addend);
+    addend = add(addend, addend);
+    e >>= 1n;
+  }
+  return result;
+};
+
+// --- Encoding (SEC1) ---
+
+export const bytesToBigInt = (bytes: Uint8Array): bigint => {
+  let v = 0n;
+  for (const b of bytes) v = (v << 8n) | BigInt(b);
+  return v;
+};
+
+export const bigIntToBytes = (v: bigint, length: number): Uint8Array => {
+  const out = new Uint8Array(length);
+  let n = v;
+  for (let i = length - 1; i >= 0; i--) {
+    out[i] = Number(n & 0xffn);
+    n >>= 8n;
+  }
+  return out;
+};
+
+export const encodePoint = (pt: ECPoint): Uint8Array => {
+  const out = new Uint8Array(65);
+  out[0] = 0x04;
+  out.set(bigIntToBytes(pt.x, 32), 1);
+  out.set(bigIntToBytes(pt.y, 32), 33);
+  return out;
+};
+
+/** Decodes a compressed (33 byte) or uncompressed (65 byte) point. Throws if it is not on the curve. */
+export const decodePoint = (bytes: Uint8Array): ECPoint => {
+  let pt: ECPoint;
+  if (bytes.length === 65 && bytes[0] === 0x04) {
+    pt = { x: bytesToBigInt(bytes.slice(1, 33)), y: bytesToBigInt(bytes.slice(33)) };
+  } else if (bytes.length === 33 && (bytes[0] === 0x02 || bytes[0] === 0x03)) {
+    const x = bytesToBigInt(bytes.slice(1));
+    // p = 3 mod 4, so the square root is a single exponentiation
+    let y = modPow(curveRhs(x), (P + 1n) / 4n, P);
+    if ((y & 1n) !== BigInt(bytes[0] & 1)) y = mod(-y);
+    pt = { x, y };
+  } else {
+    throw new Error('Unsupported point encoding');
+  }
+  if (!isOnCurve(pt)) throw new Error('Point is not on the curve');
+  return pt;
+};
+
+export const hexToBytes = (hex: string): Uint8Array => {
+  const out = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < out.length; i++) out[i] = parseInt(hex.substr(i * 2, 2), 16);
+  return out;
+};
@@ -0,0 +1,143 @@
+import { isPalmContact } from './touch';
+
+// Panic mode: hide the game behind a decoy screen without touching its state.
+// Settings and the hidden flag are per device; the flag survives a reload so
+// refreshing the page doesn't reveal the board.
+
+export interface PanicSettings {
+  pin: string;     // Digits typed on the decoy calculator, then "=". Empty: long-press "=" instead
+  shake: boolean;  // Shaking the phone also triggers panic
+  recovery: boolean; // Holding "=" for 10 s unlocks despite the PIN; off by default, as anyone could
+}
+
+const SETTINGS_KEY = 'chkobba_panic';
+const HIDDEN_KEY = 'chkobba_panic_hidden';
+
+export const DEFAULT_PANIC: PanicSettings = { pin: '', shake: false, recovery: false };
+
+export const loadPanicSettings = (): PanicSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return saved ? { ...DEFAULT_PANIC, ...JSON.parse(saved) } : DEFAULT_PANIC;
+  } catch (e) {
+    return DEFAULT_PANIC;
+  }
+};
+
+export const savePanicSettings = (settings: PanicSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const loadHidden = (): boolean => localStorage.getItem(HIDDEN_KEY) === '1';
+
+export const saveHidden = (hidden: boolean) => {
+  if (hidden) localStorage.setItem(HIDDEN_KEY, '1');
+  else localStorage.removeItem(HIDDEN_KEY);
+};
+
+// --- Shake detection ---
+
+const SHAKE_THRESHOLD = 18; // m/s^2 beyond gravity
+const SHAKE_HITS = 3;       // Jolts needed...
+const SHAKE_WINDOW_MS = 1000; // ...within this long, so a bump in a pocket doesn't count
+
+/** iOS only delivers motion events after the user grants it, from a tap. */
+export const requestMotionPermission = async (): Promise<boolean> => {
+  const Motion = (window as any).DeviceMotionEvent;
+  if (!Motion) return false;
+  if (typeof Motion.requestPermission !== 'function') return true;
+  try {
+    return (await Motion.requestPermission()) === 'granted';
+  } catch (e) {
+    return false;
+  }
+};
+
+/** Calls onShake on a deliberate shake. Returns the unsubscribe function. */
+export const watchShake = (onShake: () => void): (() => void) => {
+  let hits: number[] = [];
+  const handler = (e: DeviceMotionEvent) => {
+    const a = e.accelerationIncludingGravity;
+    if (!a || a.x === null || a.y === null || a.z === null) return;
+    const jolt = Math.abs(Math.hypot(a.x, a.y, a.z) - 9.81);
+    if (jolt < SHAKE_THRESHOLD) return;
+
+    const now = Date.now();
+    hits = [...hits.filter(t => now - t < SHAKE_WINDOW_MS), now];
+    if (hits.length >= SHAKE_HITS) {
+      hits = [];
+      onShake();
+    }
+  };
+  window.addEventListener('devicemotion', handler);
+  return () => window.removeEventListener('devicemotion', handler);
+};
+
+// --- Two-finger hold ---
+
+const HOLD_MS = 600;
+const HOLD_SLOP_PX = 30; // How far the fingers may drift while held
+
+/**
+ * Calls onHold once exactly two fingers, and nothing else, stay on the screen
+ * for HOLD_MS. Palms, touches just after the stylus and anything while the
+ * stylus is down don't count, as on the drawing board. Capture phase, so it
+ * sees touches the board handles. Returns the unsubscribe function.
+ */
+export const watchTwoFingerHold = (onHold: () => void): (() => void) => {
+  let lastPen = -Infinity;
+  let penDown = false;
+  let timer: any = null;
+  let origin: { x: number; y: number }[] = [];
+
+  const cancel = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+
+  const onPointer = (e: PointerEvent) => {
+    if (e.pointerType !== 'pen') return;
+    lastPen = performance.now();
+    penDown = e.type === 'pointerdown' || (penDown && e.type === 'pointermove');
+    if (penDown) cancel();
+  };
+
+  const onTouchStart = (e: TouchEvent) => {
+    cancel();
+    const touches = Array.from(e.touches);
+    const fingers = touches.filter(t => !isPalmContact(t.radiusX * 2 || 0, t.radiusY * 2 || 0, lastPen));
+    if (penDown || touches.length !== 2 || fingers.length !== 2) return;
+    origin = touches.map(t => ({ x: t.clientX, y: t.clientY }));
+    timer = setTimeout(() => {
+      timer = null;
+      onHold();
+    }, HOLD_MS);
+  };
+
+  const onTouchMove = (e: TouchEvent) => {
+    if (!timer) return;
+    const moved = Array.from(e.touches).some((t, i) => !origin[i] || Math.hypot(t.clientX - origin[i].x, t.clientY - origin[i].y) > HOLD_SLOP_PX);
+    if (moved) cancel();
+  };
+
+  const options = { capture: true, passive: true };
+  window.addEventListener('pointerdown', onPointer, options);
+  window.addEventListener('pointermove', onPointer, options);
+  window.addEventListener('pointerup', onPointer, options);
+  window.addEventListener('pointercancel', onPointer, options);
+  window.addEventListener('touchstart', onTouchStart, options);
+  window.addEventListener('touchmove', onTouchMove, options);
+  window.addEventListener('touchend', cancel, options);
+  window.addEventListener('touchcancel', cancel, options);
+  return () => {
+    cancel();
+    window.removeEventListener('pointerdown', onPointer, options);
+    window.removeEventListener('pointermove', onPointer, options);
+    window.removeEventListener('pointerup', onPointer, options);
+    window.removeEventListener('pointercancel', onPointer, options);
+    window.removeEventListener('touchstart', onTouchStart, options);
+    window.removeEventListener('touchmove', onTouchMove, options);
+    window.removeEventListener('touchend', cancel, options);
+    window.removeEventListener('touchcancel', cancel, options);
+  };
+};
@@ -0,0 +1,243 @@
+import { BoardSnapshot, CardFate, QuickSignal, RoundTally, SignalMessage, SignalMessageType, Stroke, SyncedMessage } from '../types';
+import { decodeStroke, encodeStroke } from './strokeCodec';
+import { MAX_STROKE_WIDTH, STAMPS } from './brush';
+
+// Bump when a message changes shape. Peers below MIN_PROTOCOL_VERSION are
+// refused at the HELLO handshake instead of silently dropping signals.
+// v2: everything but HELLO is wrapped in a SEALED envelope in cloud mode.
+// v3: shared-state messages carry seq/lamport stamps; SYNC_REQUEST/SYNC_OPS resync.
+// v4: STROKE_REMOVE/STROKE_RESTORE for undo, redo and the eraser.
+// v5: STROKE_PARTIAL/STROKE_CANCEL stream strokes while they are drawn.
+// v6: finished strokes may travel as binary frames (see BINARY_FRAMES_VERSION).
+// v7: RANK_BADGE shows a recognized handwritten rank on both screens.
+// v8: fading strokes (createdAt/ttl, also in binary frames); HEARTBEAT carries sentAt.
+// v9: PANIC hides the partner's game behind a decoy.
+// v10: SCORE_ROUND/SCORE_REMOVE/SCORE_TARGET/SCORE_RESET for the scorekeeper.
+// v11: CARD_FATE/HANDS_DEALT for the played-card counter.
+// v12: QUICK_SIGNAL from the signal palette.
+// v13: strokes carry width/highlighter/stamp (also in binary frames and STROKE_PARTIAL).
+// v14: stroke points are relative to the shared fixed-aspect board, not the sender's canvas.
+// v15: the compacted base travels in SYNC_SNAPSHOT parts instead of inside SYNC_OPS.
+// v16: imported strokes may carry drawnBy (also in binary frames).
+export const PROTOCOL_VERSION = 16;
+export const MIN_PROTOCOL_VERSION = 16;
+
+// Binary frames are only sent to a partner whose HELLO announced at least
+// this version; older partners keep getting JSON.
+export const BINARY_FRAMES_VERSION = 6;
+
+export type ParseResult =
+  | { ok: true; message: SignalMessage }
+  | { ok: false; error: string };
+
+type Validator = (data: any) => boolean;
+
+// Every browser accepts data channel messages up to this size
+export const MAX_MESSAGE_BYTES = 64 * 1024;
+
+// A sealed message is base64 of the AES-GCM ciphertext (plaintext + a 16-byte
+// tag) inside a SEALED envelope with a 12-byte IV, also base64
+const GCM_TAG_BYTES = 16;
+const SEALED_ENVELOPE_CHARS = JSON.stringify({ type: 'SEALED', iv: '', ct: '' }).length + 16;
+
+/** Bytes a JSON message of `plainBytes` UTF-8 bytes takes on the channel once sealed. */
+export const sealedSize = (plainBytes: number): number =>
+  SEALED_ENVELOPE_CHARS + Math.ceil((plainBytes + GCM_TAG_BYTES) / 3) * 4;
+
+/** The largest JSON message, in UTF-8 bytes, that still fits in one data channel message once sealed. */
+export const MAX_PLAIN_BYTES = Math.floor((MAX_MESSAGE_BYTES - SEALED_ENVELOPE_CHARS) / 4) * 3 - GCM_TAG_BYTES;
+
+export const MAX_SIGNAL_LABEL = 32;
+export const MAX_VIBRATION_STEPS = 20;
+export const MAX_VIBRATION_MS = 2000;
+
+const isObject = (v: unknown): v is Record<string, any> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const isFiniteNumber = (v: unknown): v is number =>
+  typeof v === 'number' && Number.isFinite(v);
+
+const isString = (v: unknown): v is string => typeof v === 'string' && v.length > 0;
+
+const isPoints = (v: unknown): boolean =>
+  Array.isArray(v) && v.every((p: unknown) => isObject(p) && isFiniteNumber(p.x) && isFiniteNumber(p.y));
+
+const isWidth = (v: unknown) => v === undefined || (Number.isInteger(v) && (v as number) >= 1 && (v as number) <= MAX_STROKE_WIDTH);
+
+/** Checks a stroke's shape, e.g. from the partner or an imported file. */
+export const isStroke = (v: unknown): v is Stroke =>
+  isObject(v) &&
+  isString(v.id) &&
+  typeof v.color === 'string' &&
+  isPoints(v.points) &&
+  isWidth(v.width) &&
+  (v.highlighter === undefined || typeof v.highlighter === 'boolean') &&
+  (v.stamp === undefined || STAMPS.includes(v.stamp)) &&
+  (v.drawnBy === undefined || v.drawnBy === 'HOST' || v.drawnBy === 'JOINER') &&
+  (v.ttl === undefined || (isFiniteNumber(v.ttl) && v.ttl > 0 && isFiniteNumber(v.createdAt)));
+
+const isCount = (v: unknown): v is number => Number.isInteger(v) && (v as number) >= 0;
+
+const hasStamp = (d: any) => isCount(d.seq) && d.seq > 0 && isCount(d.lamport);
+
+const isVector = (v: unknown) => isObject(v) && isCount(v.HOST) && isCount(v.JOINER);
+
+const isRound = (v: unknown): v is RoundTally =>
+  isObject(v) &&
+  isString(v.id) &&
+  isFiniteNumber(v.at) &&
+  [v.cards, v.dinari, v.sevens, v.sixes].every(isCount) &&
+  (v.haya === 'US' || v.haya === 'THEM') &&
+  isObject(v.chkobbas) && isCount(v.chkobbas.US) && isCount(v.chkobbas.THEM);
+
+// Bounds keep a hostile or buggy partner from buzzing the phone for minutes
+const isQuickSignal = (v: unknown): v is QuickSignal =>
+  isObject(v) &&
+  isString(v.id) &&
+  isString(v.label) && v.label.length <= MAX_SIGNAL_LABEL &&
+  typeof v.color === 'string' && /^#[0-9a-f]{6}$/i.test(v.color) &&
+  Array.isArray(v.vibration) && v.vibration.length <= MAX_VIBRATION_STEPS &&
+  v.vibration.every((ms: unknown) => isCount(ms) && (ms as number) <= MAX_VIBRATION_MS);
+
+const CARD_FATES: CardFate[] = ['PLAYED', 'OURS', 'THEIRS', 'HAND'];
+
+const hasCard = (d: any) => isString(d.cardId);
+const hasCardValue = (d: any) => hasCard(d) && typeof d.value === 'boolean' && hasStamp(d);
+
+// Shared-state messages, the only ones allowed inside an Op
+const SYNCED_VALIDATORS: Record<SyncedMessage['type'], Validator> = {
+  SYNC_STROKE: d => isStroke(d.stroke) && hasStamp(d),
+  STROKE_REMOVE: d => isString(d.strokeId) && hasStamp(d),
+  STROKE_RESTORE: d => isString(d.strokeId) && hasStamp(d),
+  CLEAR_BOARD: hasStamp,
+  RESET: hasStamp,
+  CARD_SELECT: hasCardValue,
+  CARD_CROSS: hasCardValue,
+  CARD_CIRCLE: hasCardValue,
+  CARD_FATE: d => hasCard(d) && (d.fate === null || CARD_FATES.includes(d.fate)) && hasStamp(d),
+  HANDS_DEALT: d => isCount(d.value) && hasStamp(d),
+  SCORE_ROUND: d => isRound(d.round) && hasStamp(d),
+  SCORE_REMOVE: d => isString(d.roundId) && hasStamp(d),
+  SCORE_TARGET: d => Number.isInteger(d.target) && d.target > 0 && hasStamp(d),
+  SCORE_RESET: hasStamp,
+};
+
+/** Whether a message is a change to the shared state, i.e. belongs in the op log. */
+export const isSyncedMessage = (message: SignalMessage): message is SyncedMessage =>
+  Object.prototype.hasOwnProperty.call(SYNCED_VALIDATORS, message.type);
+
+const isOp = (v: unknown): boolean => {
+  if (!isObject(v) || (v.author !== 'HOST' && v.author !== 'JOINER') || !isObject(v.message)) return false;
+  const validate = SYNCED_VALIDATORS[v.message.type as SyncedMessage['type']];
+  return !!validate && validate(v.message);
+};
+
+// Snapshots come from our own build's replay, so only the outline is checked
+export const isSnapshot = (v: unknown): v is BoardSnapshot =>
+  isObject(v) && isVector(v.vector) && isCount(v.lamport) &&
+  isObject(v.state) && Array.isArray(v.state.strokes) && isObject(v.state.cards);
+
+// One entry per message type. A type missing here is "unknown" to this build.
+const VALIDATORS: Record<SignalMessageType, Validator> = {
+  HELLO: d => Number.isInteger(d.version) && Number.isInteger(d.minVersion),
+  HEARTBEAT: d => isFiniteNumber(d.sentAt),
+  ...SYNCED_VALIDATORS,
+  PING: () => true,
+  CARD_SIGNAL: hasCard,
+  QUICK_SIGNAL: d => isQuickSignal(d.signal),
+  STROKE_PARTIAL: d =>
+    isString(d.strokeId) && typeof d.color === 'string' && isWidth(d.width) &&
+    (d.highlighter === undefined || typeof d.highlighter === 'boolean') &&
+    isCount(d.start) && isPoints(d.points),
+  STROKE_CANCEL: d => isString(d.strokeId),
+  PANIC: () => true,
+  RANK_BADGE: d => Number.isInteger(d.rank) && d.rank >= 1 && d.rank <= 10,
+  SYNC_REQUEST: d => isVector(d.vector),
+  SYNC_SNAPSHOT: d => isCount(d.part) && Number.isInteger(d.parts) && d.part < d.parts && typeof d.data === 'string',
+  SYNC_OPS: d => Array.isArray(d.ops) && d.ops.every(isOp),
+  SEALED: d => isString(d.iv) && isString(d.ct),
+};
+
+export const createHello = (): SignalMessage => ({
+  type: 'HELLO',
+  version: PROTOCOL_VERSION,
+  minVersion: MIN_PROTOCOL_VERSION,
+});
+
+/**
+ * Checks a peer's HELLO against this build.
+ * Returns a human readable reason when the two builds cannot talk, or null.
+ */
+export const checkCompatibility = (hello: Extract<SignalMessage, { type: 'HELLO' }>): string | null => {
+  if (hello.version < MIN_PROTOCOL_VERSION) {
+    return `Partner's app is outdated (protocol v${hello.version}, need v${MIN_PROTOCOL_VERSION}+). Ask them to reload.`;
+  }
+  if (hello.minVersion > PROTOCOL_VERSION) {
+    return `Your app is outdated (protocol v${PROTOCOL_VERSION}, partner needs v${hello.minVersion}+). Reload to update.`;
+  }
+  return null;
+};
+
+export const encodeMessage = (message: SignalMessage): string => JSON.stringify(message);
+
+/**
+ * Parses and validates a raw data channel payload.
+ * Never throws: malformed or unknown input is reported through `error`.
+ */
+export const parseMessage = (raw: unknown): ParseResult => {
+  if (typeof raw !== 'string') {
+    return { ok: false, error: 'Received a non-text message' };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch (e) {
+    return { ok: false, error: 'Received a malformed message' };
+  }
+
+  if (!isObject(data) || typeof data.type !== 'string') {
+    return { ok: false, error: 'Received a message without a type' };
+  }
+
+  const validate = VALIDATORS[data.type as SignalMessageType];
+  if (!validate) {
+    return { ok: false, error: `Partner sent an unknown message "${data.type}". Are both phones on the same version?` };
+  }
+  if (!validate(data)) {
+    return { ok: false, error: `Partner sent an invalid "${data.type}" message` };
+  }
+
+  return { ok: true, message: data as SignalMessage };
+};
+
+// --- Binary frames ---
+//
+// ArrayBuffer messages on the same channel. The first byte is the frame kind.
+
+export const FRAME_SEALED = 0x01; // 12-byte IV + AES-GCM ciphertext of another frame
+const FRAME_STROKE = 0x02;        // SYNC_STROKE, see services/strokeCodec.ts
+
+/** Binary form of a message, or null if it has none and must go as JSON. */
+export const encodeFrame = (message: SignalMessage): Uint8Array | null => {
+  if (message.type !== 'SYNC_STROKE') return null;
+  const body = encodeStroke(message);
+  const frame = new Uint8Array(body.length + 1);
+  frame[0] = FRAME_STROKE;
+  frame.set(body, 1);
+  return frame;
+};
+
+/** Parses an unsealed binary frame. Never throws, like parseMessage. */
+export const parseFrame = (frame: Uint8Array): ParseResult => {
+  if (frame[0] !== FRAME_STROKE) {
+    return { ok: false, error: `Partner sent an unknown binary frame (${frame[0]}). Are both phones on the same version?` };
+  }
+  try {
+    const message = decodeStroke(frame.subarray(1));
+    if (!VALIDATORS.SYNC_STROKE(message)) return { ok: false, error: 'Partner sent an invalid binary stroke' };
+    return { ok: true, message };
+  } catch (e) {
+    return { ok: false, error: 'Received a malformed binary stroke' };
+  }
+};
@@ -0,0 +1,49 @@
+import qrcode from 'qrcode-generator';
+import jsQR from 'jsqr';
+
+// QR codes for manual pairing: drawing one, and reading one back from a
+// photo, screenshot or pasted image. Everything stays on the device.
+
+export interface QrMatrix {
+  size: number;  // Modules per side
+  path: string;  // SVG path of the dark modules, one unit per module
+}
+
+// Photos straight from a phone camera are huge; QR detection doesn't need that
+const MAX_DECODE_SIDE = 1024;
+
+/** Pairing codes only use QR alphanumeric characters, the densest text mode. */
+export const createQrMatrix = (text: string): QrMatrix => {
+  const qr = qrcode(0, 'M');
+  const alphanumeric = /^[0-9A-Z $%*+\-./:]*$/.test(text);
+  qr.addData(text, alphanumeric ? 'Alphanumeric' : 'Byte');
+  qr.make();
+
+  const size = qr.getModuleCount();
+  let path = '';
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      if (qr.isDark(row, col)) path += `M${col} ${row}h1v1h-1z`;
+    }
+  }
+  return { size, path };
+};
+
+/** Text of the first QR code found in an image, or null if there is none. */
+export const decodeQrImage = async (image: Blob): Promise<string | null> => {
+  const bitmap = await createImageBitmap(image);
+  const scale = Math.min(1, MAX_DECODE_SIDE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const result = jsQR(ctx.getImageData(0, 0, width, height).data, width, height, { inversionAttempts: 'attemptBoth' });
+  return result ? result.data : null;
+};
@@ -0,0 +1,76 @@
+import { QuickSignal } from '../types';
+
+// The quick-signal palette: canned messages faster and less visible than
+// drawing, each with its own flash colour and vibration. Every signal, sent
+// or received, also lands in a log, to go over misunderstandings afterwards.
+
+export const MAX_SIGNALS = 8;
+
+export const SIGNAL_COLORS = ['#3b82f6', '#22c55e', '#eab308', '#f97316', '#ef4444', '#ec4899', '#a855f7', '#14b8a6'];
+
+// Distinct by rhythm rather than by length, so they tell apart in a pocket
+export const VIBRATION_PRESETS: { name: string; pattern: number[] }[] = [
+  { name: 'Buzz', pattern: [250] },
+  { name: 'Double', pattern: [100, 80, 100] },
+  { name: 'Triple', pattern: [80, 60, 80, 60, 80] },
+  { name: 'Long', pattern: [700] },
+  { name: 'Long-short', pattern: [400, 120, 100] },
+  { name: 'Short-long', pattern: [100, 120, 400] },
+  { name: 'Heartbeat', pattern: [60, 80, 60, 400, 60, 80, 60] },
+];
+
+export const DEFAULT_QUICK_SIGNALS: QuickSignal[] = [
+  { id: 'play-7', label: 'Play your 7', color: '#eab308', vibration: VIBRATION_PRESETS[1].pattern },
+  { id: 'keep-dinari', label: 'Keep the Dinari', color: '#f97316', vibration: VIBRATION_PRESETS[4].pattern },
+  { id: 'chkobba', label: 'Go for chkobba', color: '#22c55e', vibration: VIBRATION_PRESETS[2].pattern },
+  { id: 'hold', label: 'Hold', color: '#ef4444', vibration: VIBRATION_PRESETS[3].pattern },
+];
+
+/** Preset name for a pattern, or null for a custom one. */
+export const presetName = (pattern: number[]): string | null =>
+  VIBRATION_PRESETS.find(p => p.pattern.join() === pattern.join())?.name || null;
+
+const SIGNALS_KEY = 'chkobba_quick_signals';
+
+export const loadQuickSignals = (): QuickSignal[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SIGNALS_KEY) || 'null');
+    return Array.isArray(saved) && saved.length > 0 ? saved : DEFAULT_QUICK_SIGNALS;
+  } catch (e) {
+    return DEFAULT_QUICK_SIGNALS;
+  }
+};
+
+export const saveQuickSignals = (signals: QuickSignal[]) => {
+  localStorage.setItem(SIGNALS_KEY, JSON.stringify(signals));
+};
+
+// --- Log ---
+
+export interface SignalLogEntry {
+  at: number; // Date.now() on this device
+  fromPartner: boolean;
+  label: string;
+  color: string;
+}
+
+const LOG_KEY = 'chkobba_signal_log';
+const MAX_LOG_ENTRIES = 200;
+
+export const loadSignalLog = (): SignalLogEntry[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LOG_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+/** Appends an entry, keeping the newest MAX_LOG_ENTRIES. Returns the new log. */
+export const appendSignalLog = (log: SignalLogEntry[], entry: SignalLogEntry): SignalLogEntry[] => {
+  const next = [...log, entry].slice(-MAX_LOG_ENTRIES);
+  localStorage.setItem(LOG_KEY, JSON.stringify(next));
+  return next;
+};
+
+export const clearSignalLog = () => localStorage.removeItem(LOG_KEY);
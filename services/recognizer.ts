@@ -0,0 +1,218 @@
+import { Point } from '../types';
+
+// Offline handwriting recognizer for card ranks, after the $P point-cloud
+// recognizer (Vatavu, Anthony & Wobbrock, 2012). A drawing is resampled to a
+// fixed number of points, normalized for position and size, and matched
+// against every template as an unordered point cloud, so stroke order and
+// direction don't matter and multi-stroke glyphs like "10" or "K" work.
+//
+// Built-in templates cover common handwriting. Each device can add its own
+// samples (see the training screen); they live in localStorage, so every
+// partner trains for their own hand.
+
+// Ranks can be written as digits or with the face letter from getRankLabel
+export type RankGlyph = '1' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9' | '10' | 'A' | 'J' | 'Q' | 'K';
+
+export const RANK_GLYPHS: RankGlyph[] = ['A', '1', '2', '3', '4', '5', '6', '7', 'J', '8', 'Q', '9', 'K', '10'];
+
+const GLYPH_RANKS: Record<RankGlyph, number> = {
+  '1': 1, '2': 2, '3': 3, '4': 4, '5': 5, '6': 6, '7': 7, '8': 8, '9': 9, '10': 10,
+  A: 1, J: 8, Q: 9, K: 10,
+};
+
+export const rankOfGlyph = (glyph: RankGlyph): number => GLYPH_RANKS[glyph];
+
+export interface Template {
+  glyph: RankGlyph;
+  cloud: Point[]; // Normalized, see toCloud
+}
+
+export interface Recognition {
+  glyph: RankGlyph;
+  rank: number;
+  distance: number; // Lower is better
+}
+
+const CLOUD_SIZE = 32;
+
+// Above this $P distance a drawing is treated as "not a rank" (a doodle, an arrow...)
+const MAX_MATCH_DISTANCE = 1.6;
+
+// --- Normalization ---
+
+interface CloudPoint extends Point {
+  stroke: number;
+}
+
+const pathLength = (points: CloudPoint[]): number => {
+  let d = 0;
+  for (let i = 1; i < points.length; i++) {
+    if (points[i].stroke === points[i - 1].stroke) d += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+  }
+  return d;
+};
+
+// Evenly spaced points along all strokes, never bridging the gap between two strokes
+const resample = (points: CloudPoint[], n: number): CloudPoint[] => {
+  const interval = pathLength(points) / (n - 1);
+  if (interval === 0) return Array.from({ length: n }, () => ({ ...points[0] }));
+
+  const pts = [...points];
+  const out: CloudPoint[] = [{ ...pts[0] }];
+  let carried = 0;
+  for (let i = 1; i < pts.length; i++) {
+    if (pts[i].stroke !== pts[i - 1].stroke) continue;
+    const d = Math.hypot(pts[i].x - pts[i - 1].x, pts[i].y - pts[i - 1].y);
+    if (carried + d >= interval) {
+      const t = (interval - carried) / d;
+      const q = {
+        x: pts[i - 1].x + t * (pts[i].x - pts[i - 1].x),
+        y: pts[i - 1].y + t * (pts[i].y - pts[i - 1].y),
+        stroke: pts[i].stroke,
+      };
+      out.push(q);
+      pts.splice(i, 0, q); // q starts the next segment
+      carried = 0;
+    } else {
+      carried += d;
+    }
+  }
+  // Rounding can leave us one short
+  while (out.length < n) out.push({ ...pts[pts.length - 1] });
+  return out.slice(0, n);
+};
+
+/**
+ * Resampled, scaled to a unit box (keeping the aspect ratio, so "1" stays a
+ * line) and centred on the origin. Strokes must share one coordinate space
+ * with equal x and y units.
+ */
+export const toCloud = (strokes: Point[][]): Point[] => {
+  const flat: CloudPoint[] = [];
+  strokes.forEach((s, stroke) => s.forEach(p => flat.push({ x: p.x, y: p.y, stroke })));
+  if (flat.length === 0) return [];
+
+  const points = resample(flat, CLOUD_SIZE);
+  const xs = points.map(p => p.x), ys = points.map(p => p.y);
+  const minX = Math.min(...xs), minY = Math.min(...ys);
+  const size = Math.max(Math.max(...xs) - minX, Math.max(...ys) - minY) || 1;
+  const scaled = points.map(p => ({ x: (p.x - minX) / size, y: (p.y - minY) / size }));
+  const cx = scaled.reduce((s, p) => s + p.x, 0) / scaled.length;
+  const cy = scaled.reduce((s, p) => s + p.y, 0) / scaled.length;
+  return scaled.map(p => ({ x: p.x - cx, y: p.y - cy }));
+};
+
+// --- Matching ---
+
+const cloudDistance = (a: Point[], b: Point[], start: number): number => {
+  const matched = new Uint8Array(b.length);
+  let sum = 0;
+  let i = start;
+  do {
+    let best = Infinity;
+    let index = -1;
+    b.forEach((q, j) => {
+      if (matched[j]) return;
+      const d = Math.hypot(a[i].x - q.x, a[i].y - q.y);
+      if (d < best) {
+        best = d;
+        index = j;
+      }
+    });
+    matched[index] = 1;
+    const weight = 1 - ((i - start + a.length) % a.length) / a.length;
+    sum += weight * best;
+    i = (i + 1) % a.length;
+  } while (i !== start);
+  return sum;
+};
+
+const greedyMatch = (a: Point[], b: Point[]): number => {
+  const step = Math.floor(Math.sqrt(a.length));
+  let min = Infinity;
+  for (let i = 0; i < a.length; i += step) {
+    min = Math.min(min, cloudDistance(a, b, i), cloudDistance(b, a, i));
+  }
+  return min;
+};
+
+/** Best-matching rank for a group of strokes, or null if nothing is close enough. */
+export const recognize = (strokes: Point[][], templates: Template[]): Recognition | null => {
+  const cloud = toCloud(strokes.filter(s => s.length > 0));
+  if (cloud.length === 0) return null;
+
+  let best: Template | null = null;
+  let distance = Infinity;
+  templates.forEach(t => {
+    const d = greedyMatch(cloud, t.cloud);
+    if (d < distance) {
+      distance = d;
+      best = t;
+    }
+  });
+  if (!best || distance > MAX_MATCH_DISTANCE) return null;
+  const glyph = (best as Template).glyph;
+  return { glyph, rank: rankOfGlyph(glyph), distance };
+};
+
+// --- Built-in templates ---
+
+// Polylines in a unit box, y pointing down like the board
+const ellipse = (cx: number, cy: number, rx: number, ry: number): Point[] =>
+  Array.from({ length: 17 }, (_, i) => {
+    const a = -Math.PI / 2 - (i / 16) * 2 * Math.PI; // From the top, counter-clockwise like most people write "0"
+    return { x: cx + rx * Math.cos(a), y: cy + ry * Math.sin(a) };
+  });
+
+const line = (...coords: number[]): Point[] => {
+  const points: Point[] = [];
+  for (let i = 0; i < coords.length; i += 2) points.push({ x: coords[i], y: coords[i + 1] });
+  return points;
+};
+
+const BUILTIN_STROKES: [RankGlyph, Point[][]][] = [
+  ['1', [line(0.5, 0, 0.5, 1)]],
+  ['1', [line(0.25, 0.25, 0.55, 0, 0.55, 1)]],
+  ['2', [line(0.1, 0.25, 0.3, 0.03, 0.6, 0, 0.85, 0.15, 0.85, 0.35, 0.6, 0.6, 0.1, 1, 0.9, 1)]],
+  ['3', [line(0.15, 0.1, 0.5, 0, 0.8, 0.12, 0.8, 0.35, 0.45, 0.5, 0.85, 0.65, 0.85, 0.88, 0.5, 1, 0.15, 0.9)]],
+  ['4', [line(0.6, 0, 0.1, 0.65, 0.9, 0.65), line(0.65, 0.3, 0.65, 1)]],
+  ['4', [line(0.2, 0, 0.15, 0.55, 0.8, 0.55), line(0.7, 0, 0.7, 1)]],
+  ['5', [line(0.8, 0, 0.2, 0, 0.15, 0.45, 0.5, 0.38, 0.8, 0.55, 0.8, 0.85, 0.5, 1, 0.15, 0.9)]],
+  ['5', [line(0.2, 0, 0.15, 0.45, 0.5, 0.38, 0.8, 0.55, 0.8, 0.85, 0.5, 1, 0.15, 0.9), line(0.2, 0, 0.8, 0)]],
+  ['6', [line(0.75, 0.05, 0.4, 0.2, 0.15, 0.6, 0.2, 0.9, 0.5, 1, 0.8, 0.85, 0.8, 0.6, 0.5, 0.5, 0.2, 0.65)]],
+  ['7', [line(0.1, 0, 0.9, 0, 0.4, 1)]],
+  ['7', [line(0.1, 0, 0.9, 0, 0.4, 1), line(0.35, 0.5, 0.8, 0.5)]],
+  ['8', [line(0.75, 0.15, 0.5, 0, 0.25, 0.15, 0.3, 0.35, 0.7, 0.6, 0.8, 0.85, 0.5, 1, 0.2, 0.85, 0.3, 0.6, 0.7, 0.35, 0.75, 0.15)]],
+  ['9', [line(0.8, 0.3, 0.5, 0.5, 0.2, 0.35, 0.25, 0.1, 0.5, 0, 0.8, 0.15, 0.8, 0.3, 0.75, 1)]],
+  ['10', [line(0.15, 0, 0.15, 1), ellipse(0.65, 0.5, 0.25, 0.5)]],
+  ['10', [line(0.05, 0.15, 0.2, 0, 0.2, 1), ellipse(0.7, 0.5, 0.2, 0.5)]],
+  ['A', [line(0.1, 1, 0.5, 0, 0.9, 1), line(0.25, 0.6, 0.75, 0.6)]],
+  ['J', [line(0.7, 0, 0.7, 0.8, 0.5, 1, 0.25, 0.9, 0.2, 0.75)]],
+  ['J', [line(0.3, 0, 0.9, 0), line(0.65, 0, 0.65, 0.8, 0.45, 1, 0.2, 0.9, 0.15, 0.75)]],
+  ['Q', [ellipse(0.5, 0.45, 0.4, 0.45), line(0.55, 0.7, 0.95, 1)]],
+  ['K', [line(0.2, 0, 0.2, 1), line(0.8, 0, 0.2, 0.55, 0.8, 1)]],
+  ['K', [line(0.2, 0, 0.2, 1), line(0.8, 0, 0.25, 0.5), line(0.4, 0.4, 0.8, 1)]],
+];
+
+export const BUILTIN_TEMPLATES: Template[] = BUILTIN_STROKES.map(([glyph, strokes]) => ({ glyph, cloud: toCloud(strokes) }));
+
+// --- User templates (per device) ---
+
+const STORAGE_KEY = 'chkobba_templates';
+
+export const loadUserTemplates = (): Template[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(saved) ? saved.filter(t => RANK_GLYPHS.includes(t?.glyph) && Array.isArray(t.cloud)) : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+export const saveUserTemplates = (templates: Template[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+  } catch (e) {
+    console.warn("Could not save handwriting samples", e);
+  }
+};
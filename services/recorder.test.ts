@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { BoardSnapshot, PeerRole, Stroke, SyncedMessage } from '../types';
+import { EMPTY_BOARD } from './oplog';
+import { RecordedEvent, Recording, replayAt } from './recorder';
+
+const stroke = (id: string): Stroke => ({ id, color: '#f8fafc', isRemote: false, points: [{ x: 0.1, y: 0.1 }, { x: 0.2, y: 0.2 }] });
+
+const drawn = (id: string, seq: number, lamport: number): SyncedMessage => ({ type: 'SYNC_STROKE', stroke: stroke(id), seq, lamport });
+
+const recording: Recording = { id: 'r', startedAt: 0, self: 'HOST', start: EMPTY_BOARD };
+
+const event = (at: number, fromPartner: boolean, message: RecordedEvent['message']): RecordedEvent =>
+  ({ recordingId: recording.id, at, fromPartner, message });
+
+const snapshot = (authors: Record<string, PeerRole>, vector: BoardSnapshot['vector'], lamport: number): BoardSnapshot => ({
+  state: { ...EMPTY_BOARD, strokes: Object.entries(authors).map(([id, author]) => ({ author, stroke: stroke(id) })) },
+  vector,
+  lamport,
+});
+
+const ids = (strokes: Stroke[]) => strokes.map(s => s.id).sort();
+
+describe('replayAt', () => {
+  // Partner stroke P1 arrives, then a resync hands us their base with P1 and
+  // P2-P3, which we never saw as Ops, then P4 arrives live
+  const events: RecordedEvent[] = [
+    event(10, false, drawn('mine', 1, 1)),
+    event(20, true, drawn('P1', 1, 2)),
+    event(30, true, { type: 'SNAPSHOT', snapshot: snapshot({ P1: 'JOINER', P2: 'JOINER', P3: 'JOINER' }, { HOST: 0, JOINER: 3 }, 4) }),
+    event(40, true, drawn('P4', 4, 5)),
+  ];
+
+  it('replays Ops on top of the start board before any snapshot', () => {
+    expect(ids(replayAt(recording, events, 25).strokes)).toEqual(['P1', 'mine']);
+  });
+
+  it('restarts from a snapshot, keeping Ops it does not cover once', () => {
+    expect(ids(replayAt(recording, events, 30).strokes)).toEqual(['P1', 'P2', 'P3', 'mine']);
+    expect(ids(replayAt(recording, events, 40).strokes)).toEqual(['P1', 'P2', 'P3', 'P4', 'mine']);
+  });
+
+  it('keeps who drew what from the snapshot', () => {
+    const strokes = replayAt(recording, events, 40).strokes;
+    expect(strokes.filter(s => s.isRemote).map(s => s.id).sort()).toEqual(['P1', 'P2', 'P3', 'P4']);
+  });
+});
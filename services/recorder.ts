@@ -0,0 +1,311 @@
+import { BoardSnapshot, BoardState, CardMarks, Op, PeerRole, SignalMessage, Stroke, SyncedMessage } from '../types';
+import { getRankLabel } from '../constants';
+import { createId, replayOps, viewCardMarks, viewStrokes } from './oplog';
+import { isSnapshot, isSyncedMessage, parseMessage } from './protocol';
+
+// Opt-in game recorder, for going over a game afterwards: which signals were
+// sent, when, and what the board and card tracker looked like at the time.
+//
+// A recording keeps the board as it was when recording began, then every
+// shared change (the same Ops the op log holds) and every signal, each with
+// the time this device saw it. Replaying Ops on top of the start board
+// rebuilds the shared state at any moment. A resync that replaced the board
+// with the partner's compacted base is kept too, and replay restarts from it.
+// Everything lives in IndexedDB, so it outlasts `exitGame`, and moves between
+// devices as a JSON file.
+
+const SIGNAL_TYPES = ['PING', 'CARD_SIGNAL', 'QUICK_SIGNAL', 'RANK_BADGE'] as const;
+
+type RecordedSignal = Extract<SignalMessage, { type: typeof SIGNAL_TYPES[number] }>;
+// Not a message on the wire: the whole base adopted from the partner's SYNC_SNAPSHOT
+type RecordedSnapshot = { type: 'SNAPSHOT'; snapshot: BoardSnapshot };
+export type RecordedMessage = SyncedMessage | RecordedSignal | RecordedSnapshot;
+
+export interface Recording {
+  id: string;
+  startedAt: number; // Date.now()
+  self: PeerRole;
+  start: BoardState;
+}
+
+export interface RecordedEvent {
+  recordingId: string;
+  at: number; // Date.now() when this device sent or received it
+  fromPartner: boolean;
+  message: RecordedMessage;
+}
+
+export interface RecordingSummary {
+  recording: Recording;
+  events: number;
+  endedAt: number; // Time of the last event
+}
+
+export const isSignalMessage = (message: SignalMessage | RecordedMessage): message is RecordedSignal =>
+  (SIGNAL_TYPES as readonly string[]).includes(message.type);
+
+// --- Preference (per device) ---
+
+const ENABLED_KEY = 'chkobba_record';
+const CURRENT_KEY = 'chkobba_recording'; // The recording the current game appends to
+
+export const loadRecordingEnabled = (): boolean => localStorage.getItem(ENABLED_KEY) === '1';
+
+export const saveRecordingEnabled = (enabled: boolean) => {
+  if (enabled) localStorage.setItem(ENABLED_KEY, '1');
+  else localStorage.removeItem(ENABLED_KEY);
+};
+
+export const loadCurrentRecording = (): string | null => localStorage.getItem(CURRENT_KEY);
+
+export const saveCurrentRecording = (id: string | null) => {
+  if (id) localStorage.setItem(CURRENT_KEY, id);
+  else localStorage.removeItem(CURRENT_KEY);
+};
+
+// --- Storage ---
+
+const DB_NAME = 'chkobba_recordings';
+const DB_VERSION = 1;
+const RECORDINGS = 'recordings';
+const EVENTS = 'events';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// One shared connection. Requests queued on it run in the order they were made,
+// so events land in the order they were recorded
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(RECORDINGS, { keyPath: 'id' });
+        db.createObjectStore(EVENTS, { autoIncrement: true }).createIndex('recordingId', 'recordingId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; }); // Try again next time, e.g. after private mode blocked it
+  }
+  return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+/** A new recording starting from `start`. Usable at once; it is stored in the background. */
+export const createRecording = (self: PeerRole, start: BoardState): { recording: Recording; saved: Promise<void> } => {
+  const recording: Recording = { id: createId(), startedAt: Date.now(), self, start };
+  const saved = openDb().then(db => {
+    const tx = db.transaction(RECORDINGS, 'readwrite');
+    tx.objectStore(RECORDINGS).put(recording);
+    return transactionDone(tx);
+  });
+  return { recording, saved };
+};
+
+export const recordEvent = async (event: RecordedEvent): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(EVENTS, 'readwrite');
+  tx.objectStore(EVENTS).add(event);
+  return transactionDone(tx);
+};
+
+/** Every stored recording, newest first. */
+export const listRecordings = async (): Promise<RecordingSummary[]> => {
+  const db = await openDb();
+  const recordings = await requestResult(db.transaction(RECORDINGS, 'readonly').objectStore(RECORDINGS).getAll() as IDBRequest<Recording[]>);
+  // All requests up front: a transaction closes once it has nothing left to do
+  const index = db.transaction(EVENTS, 'readonly').objectStore(EVENTS).index('recordingId');
+  const summaries = await Promise.all(recordings.map(async recording => {
+    const [events, last] = await Promise.all([
+      requestResult(index.count(recording.id)),
+      requestResult(index.openCursor(recording.id, 'prev')), // The newest key is the last event added
+    ]);
+    const endedAt = (last?.value as RecordedEvent | undefined)?.at ?? recording.startedAt;
+    return { recording, events, endedAt };
+  }));
+  return summaries.sort((a, b) => b.recording.startedAt - a.recording.startedAt);
+};
+
+/** A recording's events in the order they happened. */
+export const loadEvents = async (recordingId: string): Promise<RecordedEvent[]> => {
+  const db = await openDb();
+  const index = db.transaction(EVENTS, 'readonly').objectStore(EVENTS).index('recordingId');
+  const events = await requestResult(index.getAll(recordingId) as IDBRequest<RecordedEvent[]>);
+  return events.sort((a, b) => a.at - b.at); // Stable, so same-millisecond events keep their order
+};
+
+export const deleteRecording = async (recordingId: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([RECORDINGS, EVENTS], 'readwrite');
+  tx.objectStore(RECORDINGS).delete(recordingId);
+  const cursor = tx.objectStore(EVENTS).index('recordingId').openCursor(recordingId);
+  cursor.onsuccess = () => {
+    if (!cursor.result) return;
+    cursor.result.delete();
+    cursor.result.continue();
+  };
+  return transactionDone(tx);
+};
+
+// --- Files ---
+
+const FILE_FORMAT = 'chkobba-recording';
+const FILE_VERSION = 2; // v2: SNAPSHOT events
+
+type FileEvent = Omit<RecordedEvent, 'recordingId'>;
+
+interface RecordingFile {
+  format: typeof FILE_FORMAT;
+  version: number;
+  recording: Recording;
+  events: FileEvent[];
+}
+
+export const exportRecording = async (recording: Recording): Promise<string> => {
+  const events = await loadEvents(recording.id);
+  const file: RecordingFile = {
+    format: FILE_FORMAT,
+    version: FILE_VERSION,
+    recording,
+    events: events.map(({ at, fromPartner, message }) => ({ at, fromPartner, message })),
+  };
+  return JSON.stringify(file);
+};
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null;
+
+// Events go through the same validation as messages off the data channel
+const parseEvent = (v: unknown): FileEvent | null => {
+  if (!isObject(v) || !Number.isFinite(v.at) || typeof v.fromPartner !== 'boolean') return null;
+  if (isObject(v.message) && v.message.type === 'SNAPSHOT') {
+    if (!isSnapshot(v.message.snapshot)) return null;
+    return { at: v.at, fromPartner: v.fromPartner, message: { type: 'SNAPSHOT', snapshot: v.message.snapshot } };
+  }
+  const result = parseMessage(JSON.stringify(v.message));
+  if (result.ok === false) return null;
+  const { message } = result;
+  if (!isSyncedMessage(message) && !isSignalMessage(message)) return null;
+  return { at: v.at, fromPartner: v.fromPartner, message };
+};
+
+/**
+ * Stores a recording from an exported file under a new id, so importing the
+ * same file twice keeps two copies. Throws with a readable message on a bad file.
+ */
+export const importRecording = async (text: string): Promise<Recording> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error('Not a recording file.');
+  }
+  if (!isObject(data) || data.format !== FILE_FORMAT || !isObject(data.recording) || !Array.isArray(data.events)) {
+    throw new Error('Not a recording file.');
+  }
+  if (data.version > FILE_VERSION) throw new Error('This recording comes from a newer version. Reload to update.');
+
+  const { startedAt, self, start } = data.recording;
+  if (!Number.isFinite(startedAt) || (self !== 'HOST' && self !== 'JOINER') ||
+      !isObject(start) || !Array.isArray(start.strokes) || !isObject(start.cards)) {
+    throw new Error('The recording file is damaged.');
+  }
+  const events = data.events.map(parseEvent);
+  if (events.some(e => e === null)) throw new Error('The recording file is damaged.');
+
+  const recording: Recording = { id: createId(), startedAt, self, start: start as BoardState };
+  const db = await openDb();
+  const tx = db.transaction([RECORDINGS, EVENTS], 'readwrite');
+  tx.objectStore(RECORDINGS).put(recording);
+  (events as FileEvent[]).forEach(e => tx.objectStore(EVENTS).add({ ...e, recordingId: recording.id }));
+  await transactionDone(tx);
+  return recording;
+};
+
+// --- Replay ---
+
+export interface ReplayFrame {
+  strokes: Stroke[];
+  cards: Record<string, CardMarks>;
+  handsDealt: number;
+}
+
+/** The shared state as this device saw it at `at` (Date.now() terms). */
+export const replayAt = (recording: Recording, events: RecordedEvent[], at: number): ReplayFrame => {
+  const partner: PeerRole = recording.self === 'HOST' ? 'JOINER' : 'HOST';
+  const played = events.filter(e => e.at <= at);
+
+  // Start from the last snapshot adopted by then, as the op log did
+  let start = recording.start;
+  let startedAt = recording.startedAt;
+  let covered: (op: Op) => boolean = () => false;
+  played.forEach(e => {
+    if (e.message.type !== 'SNAPSHOT') return;
+    const { state, vector } = e.message.snapshot;
+    start = state;
+    startedAt = e.at;
+    covered = op => op.message.seq <= vector[op.author];
+  });
+
+  // Ops from before the snapshot that it doesn't cover still count, as in applySnapshot
+  const ops: Op[] = [];
+  const drawnAt: Record<string, number> = {};
+  played.forEach(e => {
+    if (e.message.type === 'SNAPSHOT' || !isSyncedMessage(e.message)) return;
+    const op: Op = { author: e.fromPartner ? partner : recording.self, message: e.message };
+    if (covered(op)) return;
+    ops.push(op);
+    if (e.message.type === 'SYNC_STROKE') drawnAt[e.message.stroke.id] = e.at;
+  });
+  const board = replayOps(start, ops);
+
+  // Fading ink is timed from when the stroke arrived here, then shown plainly
+  const strokes = viewStrokes(board, recording.self)
+    .filter(s => s.ttl === undefined || (drawnAt[s.id] ?? startedAt) + s.ttl > at)
+    .map(({ ttl, createdAt, ...stroke }) => stroke);
+
+  return { strokes, cards: viewCardMarks(board, recording.self), handsDealt: board.handsDealt };
+};
+
+const CARD_FATE_LABELS: Record<string, string> = { PLAYED: 'played', OURS: 'taken by us', THEIRS: 'taken by them', HAND: 'in hand' };
+
+/** One line for the event list. */
+export const describeEvent = (message: RecordedMessage): string => {
+  switch (message.type) {
+    case 'SYNC_STROKE': {
+      const { stamp, highlighter } = message.stroke;
+      if (stamp) return `Stamp: ${stamp.toLowerCase()}`;
+      return highlighter ? 'Highlight' : 'Stroke';
+    }
+    case 'STROKE_REMOVE': return 'Stroke removed';
+    case 'STROKE_RESTORE': return 'Stroke restored';
+    case 'CLEAR_BOARD': return 'Board cleared';
+    case 'RESET': return 'Card tracker reset';
+    case 'CARD_SELECT': return `Card ${message.cardId} ${message.value ? 'selected' : 'unselected'}`;
+    case 'CARD_CROSS': return `Card ${message.cardId} ${message.value ? 'crossed' : 'uncrossed'}`;
+    case 'CARD_CIRCLE': return `Card ${message.cardId} ${message.value ? 'circled' : 'uncircled'}`;
+    case 'CARD_FATE': return message.fate ? `Card ${message.cardId} ${CARD_FATE_LABELS[message.fate]}` : `Card ${message.cardId} unmarked`;
+    case 'HANDS_DEALT': return `Hand ${message.value} dealt`;
+    case 'SCORE_ROUND': return 'Round scored';
+    case 'SCORE_REMOVE': return 'Round removed';
+    case 'SCORE_TARGET': return `Match target ${message.target}`;
+    case 'SCORE_RESET': return 'New match';
+    case 'PING': return 'Ping';
+    case 'CARD_SIGNAL': return `Signalled card ${message.cardId}`;
+    case 'QUICK_SIGNAL': return `"${message.signal.label}"`;
+    case 'RANK_BADGE': return `Wrote ${getRankLabel(message.rank)}`;
+    case 'SNAPSHOT': return 'Caught up from partner';
+  }
+};
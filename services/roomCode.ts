@@ -0,0 +1,80 @@
+// Cloud room codes and room claims.
+//
+// A code is three words from a fixed list of 256 (16.7M codes), easy to read
+// out across a table and to type on a phone. The code doubles as the SPAKE2
+// password, so it is drawn from crypto.getRandomValues.
+//
+// A host claims its room with a retained message on the 'claim' topic, so a
+// second host picking the same code sees it on connect. Claims carry an expiry:
+// a host that crashed or was closed without clearing its claim only blocks the
+// code until then, and nobody chooses codes by hand, so the only cost of a
+// stale claim is drawing another code.
+
+export const ROOM_WORDS = [
+  'acorn', 'alarm', 'album', 'alley', 'amber', 'angle', 'ankle', 'apple', 'apron', 'arena', 'arrow', 'atlas',
+  'attic', 'bacon', 'badge', 'bagel', 'baker', 'bamboo', 'banjo', 'barn', 'basil', 'beach', 'beard', 'bench',
+  'berry', 'bison', 'blade', 'blank', 'blaze', 'bloom', 'board', 'boat', 'boots', 'brain', 'brick', 'bride',
+  'brush', 'bucket', 'buddy', 'cabin', 'cable', 'cactus', 'camel', 'candy', 'canoe', 'canyon', 'cargo', 'carpet',
+  'carrot', 'castle', 'cedar', 'chalk', 'chart', 'cheese', 'cherry', 'chess', 'cider', 'cinema', 'circus', 'clock',
+  'cloud', 'clover', 'coach', 'cobra', 'cocoa', 'comet', 'coral', 'cotton', 'couch', 'crab', 'crane', 'crown',
+  'cube', 'daisy', 'dance', 'desert', 'dock', 'donkey', 'dragon', 'drum', 'eagle', 'echo', 'elbow', 'ember',
+  'engine', 'fable', 'falcon', 'fence', 'ferry', 'field', 'flame', 'flute', 'forest', 'fossil', 'fox', 'frame',
+  'frost', 'fudge', 'galaxy', 'garden', 'gecko', 'genie', 'ghost', 'giant', 'ginger', 'glass', 'globe', 'glove',
+  'goat', 'grape', 'guitar', 'hammer', 'hazel', 'heart', 'hedge', 'helmet', 'hero', 'honey', 'hotel', 'igloo',
+  'iris', 'island', 'jacket', 'jelly', 'jewel', 'jigsaw', 'juice', 'jungle', 'kayak', 'kettle', 'kiwi', 'koala',
+  'label', 'ladder', 'lagoon', 'lake', 'lamp', 'lava', 'lemon', 'lens', 'lily', 'lion', 'llama', 'lobby',
+  'lotus', 'magnet', 'mango', 'maple', 'marble', 'meadow', 'melon', 'metal', 'mint', 'mirror', 'moon', 'motor',
+  'mouse', 'music', 'needle', 'noodle', 'north', 'novel', 'oasis', 'ocean', 'olive', 'onion', 'opera', 'orbit',
+  'otter', 'oven', 'owl', 'paddle', 'palace', 'panda', 'paper', 'parrot', 'pasta', 'peach', 'pearl', 'pepper',
+  'piano', 'pickle', 'pillow', 'pilot', 'pirate', 'pizza', 'planet', 'plum', 'polar', 'pony', 'poppy', 'potato',
+  'prism', 'puzzle', 'quartz', 'rabbit', 'radar', 'radio', 'raven', 'reef', 'rhino', 'ribbon', 'river', 'robin',
+  'rocket', 'royal', 'ruby', 'saddle', 'salad', 'salmon', 'satin', 'scarf', 'scout', 'shadow', 'shell', 'silver',
+  'sketch', 'sled', 'slope', 'smile', 'snail', 'spark', 'spider', 'spoon', 'squid', 'stamp', 'star', 'stone',
+  'sugar', 'summit', 'sunny', 'swan', 'table', 'teapot', 'tiger', 'toast', 'tomato', 'topaz', 'torch', 'tower',
+  'tulip', 'tunnel', 'turtle', 'valley', 'velvet', 'violin', 'wagon', 'walnut', 'whale', 'window', 'winter', 'wizard',
+  'yacht', 'yoga', 'zebra', 'zipper',
+];
+
+const WORDS_PER_CODE = 3;
+
+// Sessions are only restored for two hours, see App; a claim never needs to outlive one
+export const CLAIM_TTL_MS = 2 * 60 * 60 * 1000;
+
+export const generateRoomCode = (): string => {
+  const picks = crypto.getRandomValues(new Uint8Array(WORDS_PER_CODE));
+  return Array.from(picks, i => ROOM_WORDS[i]).join('-');
+};
+
+/** "Tiger Olive  lamp" -> "tiger-olive-lamp". */
+export const normalizeRoomCode = (input: string): string =>
+  input.toLowerCase().split(/[^a-z]+/).filter(Boolean).join('-');
+
+export const isRoomCode = (code: string): boolean => {
+  const words = code.split('-');
+  return words.length === WORDS_PER_CODE && words.every(w => ROOM_WORDS.includes(w));
+};
+
+// --- Claims ---
+
+export interface RoomClaim {
+  id: string;     // The host's session id; a resumed host recognizes its own claim
+  since: number;  // When the room was first claimed, to settle two hosts claiming at once
+  until: number;  // Expiry
+}
+
+export const createClaim = (id: string, since: number): RoomClaim => ({ id, since, until: Date.now() + CLAIM_TTL_MS });
+
+/** A live claim from the payload, or null for a cleared, expired or malformed one. */
+export const parseClaim = (payload: string): RoomClaim | null => {
+  try {
+    const claim = JSON.parse(payload);
+    if (typeof claim?.id !== 'string' || typeof claim.since !== 'number' || typeof claim.until !== 'number') return null;
+    return claim.until > Date.now() ? claim : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+// The earlier claim keeps the room; ties go to the smaller id so both hosts agree
+export const claimWins = (a: RoomClaim, b: RoomClaim): boolean =>
+  a.since < b.since || (a.since === b.since && a.id < b.id);
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { CardData, Suit } from '../types';
+import { canCapture, legalCaptures, rankPlays } from './rules';
+
+const card = (suit: Suit, rank: number): CardData => ({ id: `${suit}-${rank}`, rank, suit, label: String(rank) });
+
+const ids = (cards: CardData[]) => cards.map(c => c.id);
+
+describe('legalCaptures', () => {
+  it('takes a single card of the same rank over any sum', () => {
+    const table = [card('BSTONI', 3), card('KOB', 4), card('SBATI', 7)];
+    const captures = legalCaptures(table, card('KOB', 7));
+    expect(captures.map(c => ids(c.cards))).toEqual([['SBATI-7']]);
+  });
+
+  it('offers each rank match separately', () => {
+    const table = [card('BSTONI', 5), card('KOB', 5), card('SBATI', 2), card('DINARI', 3)];
+    const captures = legalCaptures(table, card('DINARI', 5));
+    expect(captures.map(c => ids(c.cards))).toEqual([['BSTONI-5'], ['KOB-5']]);
+  });
+
+  it('finds every sum, telling apart cards of the same rank', () => {
+    const table = [card('DINARI', 2), card('SBATI', 2), card('KOB', 3), card('BSTONI', 5)];
+    const captures = legalCaptures(table, card('KOB', 7)).map(c => ids(c.cards));
+    expect(captures).toHaveLength(3);
+    expect(captures).toContainEqual(['DINARI-2', 'BSTONI-5']);
+    expect(captures).toContainEqual(['SBATI-2', 'BSTONI-5']);
+    expect(captures).toContainEqual(['DINARI-2', 'SBATI-2', 'KOB-3']);
+  });
+
+  it('lists captured cards in table order', () => {
+    const table = [card('BSTONI', 6), card('KOB', 1), card('SBATI', 3)];
+    const [capture] = legalCaptures(table, card('DINARI', 10));
+    expect(ids(capture.cards)).toEqual(['BSTONI-6', 'KOB-1', 'SBATI-3']);
+  });
+
+  it('returns nothing when the card can only be dropped', () => {
+    const table = [card('BSTONI', 6), card('KOB', 5)];
+    expect(legalCaptures(table, card('DINARI', 4))).toEqual([]);
+    expect(canCapture(table, card('DINARI', 4))).toBe(false);
+    expect(legalCaptures([], card('DINARI', 4))).toEqual([]);
+  });
+
+  it('calls a capture that empties the table a chkobba', () => {
+    const table = [card('BSTONI', 3), card('KOB', 4)];
+    expect(legalCaptures(table, card('SBATI', 7))).toEqual([{ cards: table, chkobba: true }]);
+  });
+
+  it('is no chkobba when cards stay on the table', () => {
+    const table = [card('BSTONI', 3), card('KOB', 4), card('SBATI', 9)];
+    expect(legalCaptures(table, card('DINARI', 7)).every(c => !c.chkobba)).toBe(true);
+  });
+
+  it('is no chkobba on the last play of a deal', () => {
+    const table = [card('BSTONI', 3), card('KOB', 4)];
+    const [capture] = legalCaptures(table, card('SBATI', 7), { lastPlayOfDeal: true });
+    expect(capture.cards).toEqual(table);
+    expect(capture.chkobba).toBe(false);
+  });
+
+  it('counts a rank match on a one-card table as a chkobba', () => {
+    const [capture] = legalCaptures([card('BSTONI', 8)], card('KOB', 8));
+    expect(capture.chkobba).toBe(true);
+  });
+});
+
+describe('rankPlays', () => {
+  it('sorts every play best first', () => {
+    const hand = [card('BSTONI', 2), card('KOB', 7), card('SBATI', 10)];
+    const table = [card('DINARI', 3), card('BSTONI', 4)];
+    const plays = rankPlays(hand, table);
+    expect(plays).toHaveLength(3);
+    plays.slice(1).forEach((play, i) => expect(play.score).toBeLessThanOrEqual(plays[i].score));
+  });
+
+  it('puts a chkobba first and says why', () => {
+    const hand = [card('BSTONI', 2), card('KOB', 7)];
+    const table = [card('DINARI', 3), card('BSTONI', 4)];
+    const [best] = rankPlays(hand, table);
+    expect(best.card.id).toBe('KOB-7');
+    expect(best.capture?.chkobba).toBe(true);
+    expect(best.reasons).toContain('Chkobba');
+    expect(best.reasons).toContain('Takes 3 cards');
+  });
+
+  it('gives no chkobba reason on the last play of a deal', () => {
+    const plays = rankPlays([card('KOB', 7)], [card('DINARI', 3), card('BSTONI', 4)], { lastPlayOfDeal: true });
+    expect(plays[0].reasons).not.toContain('Chkobba');
+  });
+
+  it('prefers taking the 7 of Dinari', () => {
+    const hand = [card('KOB', 7), card('SBATI', 9)];
+    const table = [card('DINARI', 7), card('BSTONI', 9), card('KOB', 8)];
+    const [best] = rankPlays(hand, table);
+    expect(best.card.id).toBe('KOB-7');
+    expect(best.reasons).toContain('Takes the 7 of Dinari');
+  });
+
+  it('ranks giving away the 7 of Dinari last', () => {
+    const hand = [card('DINARI', 7), card('SBATI', 9)];
+    const table = [card('BSTONI', 10), card('KOB', 8)];
+    const plays = rankPlays(hand, table);
+    const last = plays[plays.length - 1];
+    expect(last.card.id).toBe('DINARI-7');
+    expect(last.capture).toBeNull();
+    expect(last.reasons).toContain('Gives away the 7 of Dinari');
+  });
+
+  it('warns about leaving the 7 of Dinari on the table', () => {
+    const plays = rankPlays([card('KOB', 5)], [card('DINARI', 7), card('BSTONI', 5), card('SBATI', 10)]);
+    expect(plays[0].reasons).toContain('Leaves the 7 of Dinari on the table');
+  });
+
+  it('warns about a table the next player can sweep', () => {
+    const plays = rankPlays([card('KOB', 2)], [card('BSTONI', 3)]);
+    expect(plays[0].capture).toBeNull();
+    expect(plays[0].reasons).toContain('Leaves 5 on the table, easy to sweep');
+  });
+
+  it('offers one play per capture of the same card', () => {
+    const table = [card('DINARI', 2), card('SBATI', 2), card('KOB', 3), card('BSTONI', 5)];
+    const plays = rankPlays([card('KOB', 7)], table);
+    expect(plays).toHaveLength(3);
+    expect(plays.every(p => p.capture !== null)).toBe(true);
+  });
+
+  it('returns nothing for an empty hand', () => {
+    expect(rankPlays([], [card('BSTONI', 3)])).toEqual([]);
+  });
+});
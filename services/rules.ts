@@ -0,0 +1,129 @@
+import { CardData } from '../types';
+
+// Chkobba rules over plain CardData, free of React and of app state.
+//
+// A played card captures either one table card of the same rank or, when no
+// table card matches its rank, any set of table cards whose ranks add up to
+// its rank. The player picks among the legal captures; with none, the card
+// stays on the table. A capture that empties the table is a chkobba, except on
+// the very last play of a deal.
+
+export interface Capture {
+  cards: CardData[];
+  chkobba: boolean;
+}
+
+export interface CaptureOptions {
+  lastPlayOfDeal?: boolean; // No chkobba for sweeping the table with the final card
+}
+
+export interface PlaySuggestion {
+  card: CardData;
+  capture: Capture | null; // null: the card is dropped on the table
+  score: number;
+  reasons: string[];
+}
+
+const HAYA_ID = 'DINARI-7';
+
+const isHaya = (card: CardData) => card.id === HAYA_ID;
+
+// Every subset of `cards` (sorted by rank) adding up to `target`, each in table order
+const subsetsSumming = (cards: CardData[], target: number): CardData[][] => {
+  const sorted = [...cards].sort((a, b) => a.rank - b.rank);
+  const found: CardData[][] = [];
+  const walk = (start: number, remaining: number, picked: CardData[]) => {
+    if (remaining === 0) {
+      found.push(picked);
+      return;
+    }
+    for (let i = start; i < sorted.length && sorted[i].rank <= remaining; i++) {
+      walk(i + 1, remaining - sorted[i].rank, [...picked, sorted[i]]);
+    }
+  };
+  walk(0, target, []);
+  return found.map(set => cards.filter(c => set.includes(c)));
+};
+
+/** Every capture `played` can make from `table`; empty if it can only be dropped. */
+export const legalCaptures = (table: CardData[], played: CardData, options: CaptureOptions = {}): Capture[] => {
+  const toCapture = (cards: CardData[]): Capture => ({
+    cards,
+    chkobba: cards.length === table.length && !options.lastPlayOfDeal,
+  });
+
+  // A rank match takes priority over every sum
+  const matches = table.filter(c => c.rank === played.rank);
+  if (matches.length > 0) return matches.map(c => toCapture([c]));
+
+  return subsetsSumming(table, played.rank).map(toCapture);
+};
+
+export const canCapture = (table: CardData[], played: CardData): boolean =>
+  legalCaptures(table, played).length > 0;
+
+// --- Heuristics ---
+//
+// Simple weights, a sensible default rather than strong play: take chkobbas
+// and el haya, collect cards, Dinari and sevens, never hand the opponents the
+// 7 of Dinari, and don't leave a table one card can sweep.
+
+const WEIGHTS = {
+  chkobba: 10,
+  haya: 8,
+  card: 1,
+  dinari: 1,
+  seven: 2,
+  six: 1,
+  dropHaya: -8,      // Left on the table for the next player
+  dropSeven: -2,
+  sweepableTable: -5, // The next player can clear what we leave
+  exposedHaya: -4,    // A capture that leaves the 7 of Dinari up for grabs
+};
+
+// Largest table total a single card (rank 1-10) can sweep
+const MAX_RANK = 10;
+
+const scorePlay = (table: CardData[], card: CardData, capture: Capture | null): { score: number; reasons: string[] } => {
+  let score = 0;
+  const reasons: string[] = [];
+  const add = (points: number, reason: string) => {
+    score += points;
+    reasons.push(reason);
+  };
+
+  const left = capture ? table.filter(c => !capture.cards.includes(c)) : [...table, card];
+
+  if (capture) {
+    const taken = [card, ...capture.cards];
+    if (capture.chkobba) add(WEIGHTS.chkobba, 'Chkobba');
+    if (taken.some(isHaya)) add(WEIGHTS.haya, 'Takes the 7 of Dinari');
+    score += taken.length * WEIGHTS.card;
+    const dinari = taken.filter(c => c.suit === 'DINARI').length;
+    const sevens = taken.filter(c => c.rank === 7).length;
+    const sixes = taken.filter(c => c.rank === 6).length;
+    score += dinari * WEIGHTS.dinari + sevens * WEIGHTS.seven + sixes * WEIGHTS.six;
+    reasons.push(`Takes ${taken.length} cards`);
+    if (left.some(isHaya)) add(WEIGHTS.exposedHaya, 'Leaves the 7 of Dinari on the table');
+  } else {
+    if (isHaya(card)) add(WEIGHTS.dropHaya, 'Gives away the 7 of Dinari');
+    else if (card.rank === 7) add(WEIGHTS.dropSeven, 'Drops a seven');
+    // Dropping high cards keeps the table hard to sum
+    score += (card.rank - MAX_RANK) / MAX_RANK;
+  }
+
+  const total = left.reduce((sum, c) => sum + c.rank, 0);
+  if (left.length > 0 && total <= MAX_RANK) add(WEIGHTS.sweepableTable, `Leaves ${total} on the table, easy to sweep`);
+
+  return { score, reasons };
+};
+
+/** Every play from `hand`, best first. */
+export const rankPlays = (hand: CardData[], table: CardData[], options: CaptureOptions = {}): PlaySuggestion[] =>
+  hand
+    .flatMap(card => {
+      const captures = legalCaptures(table, card, options);
+      const plays: (Capture | null)[] = captures.length > 0 ? captures : [null];
+      return plays.map(capture => ({ card, capture, ...scorePlay(table, card, capture) }));
+    })
+    .sort((a, b) => b.score - a.score);
@@ -0,0 +1,93 @@
+import { RoundTally, ScoreState, Team } from '../types';
+import { RANKS, SUITS } from '../constants';
+
+// Chkobba scoring. Each round gives one point per category won, plus one per
+// chkobba (table sweep):
+//   karta    most cards
+//   dinari   most Dinari
+//   el haya  the 7 of Dinari
+//   bermila  most sevens, or most sixes when the sevens split 2-2
+// An even split of cards, Dinari or sevens-and-sixes scores for nobody. Round
+// points add up to the match total; the first team to reach the target with
+// more points than the other wins, and a tie at the target plays on.
+
+export const TEAMS: Team[] = ['US', 'THEM'];
+
+export const MATCH_TARGETS = [11, 21];
+
+export const DEFAULT_SCORE: ScoreState = { target: MATCH_TARGETS[0], rounds: [] };
+
+const DECK_SIZE = SUITS.length * RANKS.length;
+const SUIT_SIZE = RANKS.length;
+const RANK_SIZE = SUITS.length;
+
+// Chkobbas beyond this in one round mean a typo
+const MAX_CHKOBBAS = 20;
+
+export interface RoundPoints {
+  karta: Team | null;
+  dinari: Team | null;
+  haya: Team;
+  bermila: Team | null;
+  chkobbas: Record<Team, number>;
+  total: Record<Team, number>;
+}
+
+export const otherTeam = (team: Team): Team => (team === 'US' ? 'THEM' : 'US');
+
+// More than half takes the point
+const majority = (ours: number, all: number): Team | null =>
+  ours * 2 > all ? 'US' : ours * 2 < all ? 'THEM' : null;
+
+export const scoreRound = (round: RoundTally): RoundPoints => {
+  const karta = majority(round.cards, DECK_SIZE);
+  const dinari = majority(round.dinari, SUIT_SIZE);
+  const bermila = majority(round.sevens, RANK_SIZE) ?? majority(round.sixes, RANK_SIZE);
+
+  const total = { ...round.chkobbas };
+  [karta, dinari, round.haya, bermila].forEach(team => {
+    if (team) total[team]++;
+  });
+  return { karta, dinari, haya: round.haya, bermila, chkobbas: round.chkobbas, total };
+};
+
+const inRange = (v: number, max: number) => Number.isInteger(v) && v >= 0 && v <= max;
+
+/** Why a tally cannot come from a real deal, or null if it can. */
+export const checkRound = (round: RoundTally): string | null => {
+  if (!inRange(round.cards, DECK_SIZE)) return `Cards must be 0-${DECK_SIZE}`;
+  if (!inRange(round.dinari, SUIT_SIZE)) return `Dinari must be 0-${SUIT_SIZE}`;
+  if (!inRange(round.sevens, RANK_SIZE) || !inRange(round.sixes, RANK_SIZE)) return `Sevens and sixes must be 0-${RANK_SIZE}`;
+  if (!TEAMS.every(t => inRange(round.chkobbas[t], MAX_CHKOBBAS))) return 'Check the chkobba counts';
+
+  // Each pile has to hold what is counted in it
+  const theirCards = DECK_SIZE - round.cards;
+  if (round.dinari > round.cards || SUIT_SIZE - round.dinari > theirCards) return 'More Dinari than cards in a pile';
+  if (round.sevens + round.sixes > round.cards || 2 * RANK_SIZE - round.sevens - round.sixes > theirCards) {
+    return 'More sevens and sixes than cards in a pile';
+  }
+  const [dinari, sevens] = round.haya === 'US'
+    ? [round.dinari, round.sevens]
+    : [SUIT_SIZE - round.dinari, RANK_SIZE - round.sevens];
+  if (dinari === 0 || sevens === 0) return 'The 7 of Dinari is a Dinari and a seven in the same pile';
+  return null;
+};
+
+/** Rounds in the order they were entered. */
+export const orderedRounds = (score: ScoreState): RoundTally[] =>
+  [...score.rounds].sort((a, b) => a.at - b.at || (a.id < b.id ? -1 : 1));
+
+export const matchTotals = (score: ScoreState): Record<Team, number> => {
+  const totals: Record<Team, number> = { US: 0, THEM: 0 };
+  score.rounds.forEach(round => {
+    const { total } = scoreRound(round);
+    TEAMS.forEach(t => { totals[t] += total[t]; });
+  });
+  return totals;
+};
+
+export const matchWinner = (score: ScoreState): Team | null => {
+  const totals = matchTotals(score);
+  const leader: Team = totals.US >= totals.THEM ? 'US' : 'THEM';
+  return totals[leader] >= score.target && totals[leader] > totals[otherTeam(leader)] ? leader : null;
+};
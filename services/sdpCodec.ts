@@ -0,0 +1,260 @@
+// Compact manual-mode pairing codes.
+//
+// A full SDP is ~1-2 KB, but a data-channel-only session is fully described
+// by a handful of fields: ICE ufrag/pwd, the DTLS fingerprint and setup role,
+// the media id and the candidates. Those are packed into bytes, followed by a
+// 16-bit checksum, and written in Crockford base32. The result is case- and
+// dash-insensitive, survives O/0 and I/1 mix-ups when read aloud, and uses
+// only characters QR codes store in their compact alphanumeric mode.
+//
+// The other side rebuilds a minimal but valid SDP from it.
+//
+// Bytes: [version<<4 | setup<<1 | isAnswer] str(ufrag) str(pwd) [hash id]
+// [digest] str(mid) [count] count x candidate. str = length byte + ASCII.
+// Candidate: [kind<<2 | type] address (4 / 16 / 16 bytes) port (u16).
+
+const FORMAT_VERSION = 1;
+
+const SETUPS = ['actpass', 'active', 'passive'];
+const HASHES: Record<number, { name: string; length: number }> = {
+  1: { name: 'sha-256', length: 32 },
+  2: { name: 'sha-384', length: 48 },
+  3: { name: 'sha-512', length: 64 },
+};
+const CANDIDATE_TYPES = ['host', 'srflx', 'prflx', 'relay'];
+// RFC 8445 recommended type preferences, to rebuild plausible priorities
+const TYPE_PREFERENCE: Record<string, number> = { host: 126, prflx: 110, srflx: 100, relay: 0 };
+
+const KIND_IPV4 = 0;
+const KIND_IPV6 = 1;
+const KIND_MDNS = 2; // "<uuid>.local", how browsers hide private host addresses
+
+const MAX_CANDIDATES = 8;
+
+// Crockford base32: no I, L, O or U
+const ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const GROUP = 4;
+
+// --- Small helpers ---
+
+const fail = (reason: string): never => {
+  throw new Error(`Invalid pairing code: ${reason}`);
+};
+
+const checksum = (bytes: number[]): number => {
+  // Fletcher-16
+  let a = 0, b = 0;
+  bytes.forEach(x => {
+    a = (a + x) % 255;
+    b = (b + a) % 255;
+  });
+  return (b << 8) | a;
+};
+
+const toBase32 = (bytes: number[]): string => {
+  let out = '';
+  let buffer = 0, bits = 0;
+  bytes.forEach(byte => {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += ALPHABET[(buffer >> (bits - 5)) & 31];
+      bits -= 5;
+    }
+    buffer &= (1 << bits) - 1;
+  });
+  if (bits > 0) out += ALPHABET[(buffer << (5 - bits)) & 31];
+  return out.match(new RegExp(`.{1,${GROUP}}`, 'g'))!.join('-');
+};
+
+const fromBase32 = (text: string): number[] => {
+  const clean = text.toUpperCase().replace(/O/g, '0').replace(/[IL]/g, '1').replace(/[^0-9A-Z]/g, '');
+  const bytes: number[] = [];
+  let buffer = 0, bits = 0;
+  for (const ch of clean) {
+    const v = ALPHABET.indexOf(ch);
+    if (v < 0) fail(`unexpected "${ch}"`);
+    buffer = (buffer << 5) | v;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((buffer >> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+    buffer &= (1 << bits) - 1;
+  }
+  return bytes;
+};
+
+const parseIpv6 = (address: string): number[] | null => {
+  const [head, tail] = address.split('::');
+  if (address.split('::').length > 2) return null;
+  const groups = (s: string) => (s ? s.split(':') : []);
+  const h = groups(head), t = tail !== undefined ? groups(tail) : [];
+  const all = tail !== undefined ? [...h, ...Array(8 - h.length - t.length).fill('0'), ...t] : h;
+  if (all.length !== 8 || !all.every(g => /^[0-9a-f]{1,4}$/i.test(g))) return null;
+  return all.flatMap(g => {
+    const v = parseInt(g, 16);
+    return [v >> 8, v & 0xff];
+  });
+};
+
+const formatIpv6 = (bytes: number[]): string => {
+  const groups: string[] = [];
+  for (let i = 0; i < 16; i += 2) groups.push(((bytes[i] << 8) | bytes[i + 1]).toString(16));
+  return groups.join(':');
+};
+
+const UUID_LOCAL = /^([0-9a-f]{8})-([0-9a-f]{4})-([0-9a-f]{4})-([0-9a-f]{4})-([0-9a-f]{12})\.local$/i;
+
+const hexBytes = (hex: string): number[] => hex.match(/../g)!.map(h => parseInt(h, 16));
+const toHex = (bytes: number[]): string => bytes.map(b => b.toString(16).padStart(2, '0')).join('');
+
+const formatUuidLocal = (bytes: number[]): string => {
+  const h = toHex(bytes);
+  return `${h.slice(0, 8)}-${h.slice(8, 12)}-${h.slice(12, 16)}-${h.slice(16, 20)}-${h.slice(20)}.local`;
+};
+
+// --- Encoding ---
+
+interface Candidate {
+  type: string;
+  kind: number;
+  address: number[];
+  port: number;
+}
+
+const parseCandidate = (line: string): Candidate | null => {
+  // candidate:<foundation> <component> <protocol> <priority> <address> <port> typ <type> ...
+  const parts = line.replace(/^a=/, '').split(/\s+/);
+  if (parts.length < 8 || parts[1] !== '1' || parts[2].toLowerCase() !== 'udp' || parts[6] !== 'typ') return null;
+  const type = parts[7];
+  const port = Number(parts[5]);
+  if (!CANDIDATE_TYPES.includes(type) || !Number.isInteger(port) || port <= 0 || port > 65535) return null;
+
+  const address = parts[4];
+  const uuid = address.match(UUID_LOCAL);
+  if (uuid) return { type, kind: KIND_MDNS, address: hexBytes(uuid.slice(1).join('')), port };
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(address)) return { type, kind: KIND_IPV4, address: address.split('.').map(Number), port };
+  const v6 = address.includes(':') ? parseIpv6(address) : null;
+  return v6 ? { type, kind: KIND_IPV6, address: v6, port } : null;
+};
+
+const sdpValue = (sdp: string, key: string): string | null => {
+  const match = sdp.match(new RegExp(`^a=${key}:(.+)$`, 'm'));
+  return match ? match[1].trim() : null;
+};
+
+/** Packs a complete (gathered) local description into a short code. Throws if it lacks a required field. */
+export const encodeDescription = (desc: RTCSessionDescriptionInit): string => {
+  const sdp = desc.sdp || '';
+  const ufrag = sdpValue(sdp, 'ice-ufrag');
+  const pwd = sdpValue(sdp, 'ice-pwd');
+  const fingerprint = sdpValue(sdp, 'fingerprint');
+  const setup = SETUPS.indexOf(sdpValue(sdp, 'setup') || '');
+  const mid = sdpValue(sdp, 'mid') || '0';
+  if (!ufrag || !pwd || !fingerprint || setup < 0) throw new Error('Description is missing ICE or DTLS parameters');
+
+  const [hashName, digest] = fingerprint.split(' ');
+  const hashId = Number(Object.keys(HASHES).find(id => HASHES[Number(id)].name === hashName.toLowerCase()));
+  if (!hashId) throw new Error(`Unsupported fingerprint hash ${hashName}`);
+
+  const seen = new Set<string>();
+  const candidates = (sdp.match(/^a=candidate:.+$/gm) || [])
+    .map(parseCandidate)
+    .filter((c): c is Candidate => {
+      if (!c) return false;
+      const key = `${c.kind}:${c.address.join('.')}:${c.port}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_CANDIDATES);
+
+  const bytes: number[] = [];
+  const str = (s: string) => {
+    if (s.length > 255) throw new Error('Field too long');
+    bytes.push(s.length, ...Array.from(s, c => c.charCodeAt(0) & 0x7f));
+  };
+
+  bytes.push((FORMAT_VERSION << 4) | (setup << 1) | (desc.type === 'answer' ? 1 : 0));
+  str(ufrag);
+  str(pwd);
+  bytes.push(hashId, ...digest.split(':').map(h => parseInt(h, 16)));
+  str(mid);
+  bytes.push(candidates.length);
+  candidates.forEach(c => {
+    bytes.push((c.kind << 2) | CANDIDATE_TYPES.indexOf(c.type), ...c.address, c.port >> 8, c.port & 0xff);
+  });
+
+  const sum = checksum(bytes);
+  return toBase32([...bytes, sum >> 8, sum & 0xff]);
+};
+
+// --- Decoding ---
+
+/** Rebuilds a session description from a code. Throws on typos or truncation. */
+export const decodeDescription = (code: string): RTCSessionDescriptionInit => {
+  const all = fromBase32(code);
+  if (all.length < 3) fail('too short');
+  const bytes = all.slice(0, -2);
+  if (checksum(bytes) !== ((all[all.length - 2] << 8) | all[all.length - 1])) fail('checksum mismatch, check for typos');
+
+  let offset = 0;
+  const take = (n: number): number[] => {
+    if (offset + n > bytes.length) fail('truncated');
+    const out = bytes.slice(offset, offset + n);
+    offset += n;
+    return out;
+  };
+  const str = () => String.fromCharCode(...take(take(1)[0]));
+
+  const header = take(1)[0];
+  if (header >> 4 !== FORMAT_VERSION) fail('made by a different app version');
+  const type: RTCSdpType = header & 1 ? 'answer' : 'offer';
+  const setup = SETUPS[(header >> 1) & 7] || fail('bad setup role');
+  const ufrag = str();
+  const pwd = str();
+  const hash = HASHES[take(1)[0]] || fail('bad fingerprint hash');
+  const digest = take(hash.length).map(b => b.toString(16).padStart(2, '0').toUpperCase()).join(':');
+  const mid = str();
+
+  const count = take(1)[0];
+  const candidateLines: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const flags = take(1)[0];
+    const kind = flags >> 2;
+    const candidateType = CANDIDATE_TYPES[flags & 3];
+    let address: string;
+    if (kind === KIND_IPV4) address = take(4).join('.');
+    else if (kind === KIND_IPV6) address = formatIpv6(take(16));
+    else if (kind === KIND_MDNS) address = formatUuidLocal(take(16));
+    else return fail('bad candidate');
+    const [hi, lo] = take(2);
+    const priority = TYPE_PREFERENCE[candidateType] * 2 ** 24 + (65535 - i) * 2 ** 8 + 255;
+    candidateLines.push(`a=candidate:${i} 1 udp ${priority} ${address} ${(hi << 8) | lo} typ ${candidateType}`);
+  }
+  if (offset !== bytes.length) fail('unexpected trailing data');
+
+  const sdp = [
+    'v=0',
+    `o=- ${Date.now()} 2 IN IP4 127.0.0.1`,
+    's=-',
+    't=0 0',
+    `a=group:BUNDLE ${mid}`,
+    'a=msid-semantic: WMS',
+    'm=application 9 UDP/DTLS/SCTP webrtc-datachannel',
+    'c=IN IP4 0.0.0.0',
+    ...candidateLines,
+    'a=end-of-candidates',
+    `a=ice-ufrag:${ufrag}`,
+    `a=ice-pwd:${pwd}`,
+    `a=fingerprint:${hash.name} ${digest}`,
+    `a=setup:${setup}`,
+    `a=mid:${mid}`,
+    'a=sctp-port:5000',
+    'a=max-message-size:262144',
+    '',
+  ].join('\r\n');
+
+  return { type, sdp };
+};
@@ -0,0 +1,231 @@
+// Signaling transports: how the two phones find each other before WebRTC
+// takes over. All of them carry opaque string payloads on a few per-room
+// topics; what goes inside (sealed SDP, shares...) is App's business.
+
+// MQTT Client from global script
+declare const mqtt: any;
+
+// candidate/* carry trickled ICE candidates, one topic per sender.
+// ice-offer/ice-answer restart ICE on a connection that already exists.
+// claim is the host's retained room claim; full turns away extra joiners.
+export type SignalTopic =
+  | 'join' | 'offer' | 'answer' | 'restart'
+  | 'candidate/host' | 'candidate/joiner'
+  | 'ice-offer' | 'ice-answer'
+  | 'claim' | 'full';
+
+export type SignalingKind = 'mqtt' | 'broadcast' | 'websocket';
+
+export interface SignalingEndpoint {
+  kind: SignalingKind;
+  url?: string; // Required for mqtt and websocket
+  label: string;
+}
+
+export interface TransportOptions {
+  room: string;
+  topics: SignalTopic[]; // Topics this side listens to
+  onMessage: (topic: SignalTopic, payload: string) => void;
+}
+
+export interface SignalingTransport {
+  readonly label: string;
+  // A retained payload is also delivered to whoever subscribes to the topic later
+  publish: (topic: SignalTopic, payload: string, retain?: boolean) => void;
+  close: () => void;
+}
+
+// Public brokers, tried in order until one accepts the connection
+export const PUBLIC_MQTT_BROKERS: SignalingEndpoint[] = [
+  { kind: 'mqtt', url: 'wss://broker.emqx.io:8084/mqtt', label: 'EMQX' },
+  { kind: 'mqtt', url: 'wss://broker.hivemq.com:8884/mqtt', label: 'HiveMQ' },
+  { kind: 'mqtt', url: 'wss://test.mosquitto.org:8081/mqtt', label: 'Mosquitto' },
+];
+
+export const SAME_DEVICE_ENDPOINT: SignalingEndpoint = { kind: 'broadcast', label: 'This device' };
+
+const CONNECT_TIMEOUT_MS = 6000;
+
+const TOPIC_PREFIX = 'chkobba';
+
+// --- MQTT ---
+
+const connectMqtt = (endpoint: SignalingEndpoint, opts: TransportOptions): Promise<SignalingTransport> =>
+  new Promise((resolve, reject) => {
+    const client = mqtt.connect(endpoint.url, { connectTimeout: CONNECT_TIMEOUT_MS });
+    const base = `${TOPIC_PREFIX}/${opts.room}`;
+    let settled = false;
+
+    const fail = (reason: string) => {
+      if (settled) return;
+      settled = true;
+      client.end(true);
+      reject(new Error(`${endpoint.label}: ${reason}`));
+    };
+    const timer = setTimeout(() => fail('timed out'), CONNECT_TIMEOUT_MS);
+
+    client.on('connect', () => {
+      // mqtt.js re-subscribes by itself after an automatic reconnect
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      opts.topics.forEach(t => client.subscribe(`${base}/${t}`));
+      resolve({
+        label: endpoint.label,
+        publish: (topic, payload, retain = false) => client.publish(`${base}/${topic}`, payload, { retain }),
+        close: () => client.end(),
+      });
+    });
+
+    client.on('error', (err: Error) => fail(err?.message || 'connection error'));
+
+    client.on('message', (topic: string, message: Uint8Array) => {
+      const name = topic.slice(base.length + 1) as SignalTopic;
+      if (opts.topics.includes(name)) opts.onMessage(name, message.toString());
+    });
+  });
+
+// --- BroadcastChannel (two tabs on the same device) ---
+
+const connectBroadcast = (endpoint: SignalingEndpoint, opts: TransportOptions): Promise<SignalingTransport> => {
+  if (typeof BroadcastChannel === 'undefined') {
+    return Promise.reject(new Error(`${endpoint.label}: BroadcastChannel not supported`));
+  }
+  const base = `${TOPIC_PREFIX}/${opts.room}`;
+  const channel = new BroadcastChannel(base);
+  // A tab never receives its own posts, matching the other transports
+  channel.onmessage = (e) => {
+    const { topic, payload } = e.data || {};
+    if (opts.topics.includes(topic) && typeof payload === 'string') opts.onMessage(topic, payload);
+  };
+  // Retained payloads live in localStorage, which every tab of the origin shares
+  setTimeout(() => opts.topics.forEach(topic => {
+    const retained = localStorage.getItem(`${base}/${topic}`);
+    if (retained) opts.onMessage(topic, retained);
+  }), 0);
+  return Promise.resolve({
+    label: endpoint.label,
+    publish: (topic, payload, retain = false) => {
+      // An empty retained payload clears the topic, as in MQTT
+      if (retain && payload) localStorage.setItem(`${base}/${topic}`, payload);
+      else if (retain) localStorage.removeItem(`${base}/${topic}`);
+      channel.postMessage({ topic, payload });
+    },
+    close: () => channel.close(),
+  });
+};
+
+// --- WebSocket relay (self-hosted, see relay/server.js) ---
+
+const connectWebSocket = (endpoint: SignalingEndpoint, opts: TransportOptions): Promise<SignalingTransport> =>
+  new Promise((resolve, reject) => {
+    let ws: WebSocket;
+    try {
+      ws = new WebSocket(endpoint.url!);
+    } catch (e) {
+      reject(new Error(`${endpoint.label}: invalid relay URL`));
+      return;
+    }
+    let settled = false;
+
+    const timer = setTimeout(() => {
+      if (settled) return;
+      settled = true;
+      ws.close();
+      reject(new Error(`${endpoint.label}: timed out`));
+    }, CONNECT_TIMEOUT_MS);
+
+    ws.onopen = () => {
+      settled = true;
+      clearTimeout(timer);
+      ws.send(JSON.stringify({ op: 'join', room: opts.room }));
+      resolve({
+        label: endpoint.label,
+        publish: (topic, payload, retain = false) => {
+          if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify({ op: 'pub', topic, payload, retain }));
+        },
+        close: () => ws.close(),
+      });
+    };
+
+    ws.onerror = () => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      reject(new Error(`${endpoint.label}: connection error`));
+    };
+
+    ws.onmessage = (e) => {
+      try {
+        const { topic, payload } = JSON.parse(e.data);
+        if (opts.topics.includes(topic) && typeof payload === 'string') opts.onMessage(topic, payload);
+      } catch (err) {}
+    };
+  });
+
+export const connectTransport = (endpoint: SignalingEndpoint, opts: TransportOptions): Promise<SignalingTransport> => {
+  switch (endpoint.kind) {
+    case 'mqtt': return connectMqtt(endpoint, opts);
+    case 'broadcast': return connectBroadcast(endpoint, opts);
+    case 'websocket': return connectWebSocket(endpoint, opts);
+  }
+};
+
+/**
+ * Connects to the first endpoint that answers, in list order.
+ * Rejects with every endpoint's failure reason if none does.
+ */
+export const connectWithFallback = async (endpoints: SignalingEndpoint[], opts: TransportOptions): Promise<SignalingTransport> => {
+  const errors: string[] = [];
+  for (const endpoint of endpoints) {
+    try {
+      return await connectTransport(endpoint, opts);
+    } catch (e: any) {
+      console.warn("Signaling endpoint failed:", e?.message);
+      errors.push(e?.message || endpoint.label);
+    }
+  }
+  throw new Error(errors.join('; ') || 'No signaling endpoint configured');
+};
+
+// --- User preference ---
+
+export type SignalingMode = 'PUBLIC' | 'SAME_DEVICE' | 'RELAY';
+
+export interface SignalingSettings {
+  mode: SignalingMode;
+  relayUrl: string;
+  publicFallback: boolean; // RELAY mode: try the public brokers when the relay is down
+}
+
+const SETTINGS_KEY = 'chkobba_signaling';
+
+export const DEFAULT_SIGNALING: SignalingSettings = { mode: 'PUBLIC', relayUrl: '', publicFallback: false };
+
+export const loadSignalingSettings = (): SignalingSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return saved ? { ...DEFAULT_SIGNALING, ...JSON.parse(saved) } : DEFAULT_SIGNALING;
+  } catch (e) {
+    return DEFAULT_SIGNALING;
+  }
+};
+
+export const saveSignalingSettings = (settings: SignalingSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// A LAN relay is used alone unless the user opted into the public fallback:
+// a phone that silently ended up on a broker would never meet its partner
+export const endpointsFor = (settings: SignalingSettings): SignalingEndpoint[] => {
+  switch (settings.mode) {
+    case 'SAME_DEVICE':
+      return [SAME_DEVICE_ENDPOINT];
+    case 'RELAY': {
+      const relay: SignalingEndpoint[] = settings.relayUrl ? [{ kind: 'websocket', url: settings.relayUrl, label: 'Local relay' }] : [];
+      return settings.publicFallback ? [...relay, ...PUBLIC_MQTT_BROKERS] : relay;
+    }
+    default:
+      return PUBLIC_MQTT_BROKERS;
+  }
+};
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import { Point, Stroke, SyncedMessage } from '../types';
+import { MAX_STROKE_ERROR, SIMPLIFY_TOLERANCE, decodeStroke, encodeStroke, prepareStrokePoints, simplifyPath } from './strokeCodec';
+
+type StrokeMessage = Extract<SyncedMessage, { type: 'SYNC_STROKE' }>;
+
+const message = (stroke: Partial<Stroke>): StrokeMessage => ({
+  type: 'SYNC_STROKE',
+  seq: 3,
+  lamport: 17,
+  stroke: { id: 'stroke-1', color: '#3b82f6', points: [], isRemote: false, ...stroke },
+});
+
+// A wobbly "7": a flat top and a long diagonal, densely sampled like a finger
+const drawnSeven = (): Point[] => {
+  const points: Point[] = [];
+  for (let i = 0; i <= 60; i++) points.push({ x: 0.2 + i * 0.01, y: 0.2 + Math.sin(i / 3) * 0.002 });
+  for (let i = 1; i <= 80; i++) points.push({ x: 0.8 - i * 0.005, y: 0.2 + i * 0.008 });
+  return points;
+};
+
+const segmentDistance = (p: Point, a: Point, b: Point): number => {
+  const dx = b.x - a.x, dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+// Furthest any drawn point lies from the logged polyline
+const maxError = (drawn: Point[], logged: Point[]): number =>
+  Math.max(...drawn.map(p => {
+    if (logged.length === 1) return Math.hypot(p.x - logged[0].x, p.y - logged[0].y);
+    let best = Infinity;
+    for (let i = 1; i < logged.length; i++) best = Math.min(best, segmentDistance(p, logged[i - 1], logged[i]));
+    return best;
+  }));
+
+describe('simplifyPath', () => {
+  it('keeps every drawn point within the tolerance', () => {
+    const drawn = drawnSeven();
+    const simplified = simplifyPath(drawn, SIMPLIFY_TOLERANCE);
+    expect(simplified.length).toBeLessThan(drawn.length / 4);
+    expect(maxError(drawn, simplified)).toBeLessThanOrEqual(SIMPLIFY_TOLERANCE);
+  });
+
+  it('keeps both ends', () => {
+    const drawn = drawnSeven();
+    const simplified = simplifyPath(drawn, SIMPLIFY_TOLERANCE);
+    expect(simplified[0]).toEqual(drawn[0]);
+    expect(simplified[simplified.length - 1]).toEqual(drawn[drawn.length - 1]);
+  });
+
+  it('leaves paths of two points or fewer alone', () => {
+    expect(simplifyPath([], SIMPLIFY_TOLERANCE)).toEqual([]);
+    expect(simplifyPath([{ x: 0.5, y: 0.5 }], SIMPLIFY_TOLERANCE)).toEqual([{ x: 0.5, y: 0.5 }]);
+  });
+
+  it('handles a very long scribble without overflowing the stack', () => {
+    const drawn = Array.from({ length: 100000 }, (_, i) => ({ x: (i % 1000) / 1000, y: Math.floor(i / 1000) / 100 }));
+    expect(() => simplifyPath(drawn, SIMPLIFY_TOLERANCE)).not.toThrow();
+  });
+});
+
+describe('prepareStrokePoints', () => {
+  it('stays within MAX_STROKE_ERROR of the drawn path', () => {
+    const drawn = drawnSeven();
+    expect(maxError(drawn, prepareStrokePoints(drawn))).toBeLessThanOrEqual(MAX_STROKE_ERROR);
+  });
+
+  it('drops points that land on the same grid cell', () => {
+    const points = prepareStrokePoints([{ x: 0.5, y: 0.5 }, { x: 0.50001, y: 0.50001 }]);
+    expect(points).toHaveLength(1);
+  });
+
+  it('returns nothing for an empty stroke', () => {
+    expect(prepareStrokePoints([])).toEqual([]);
+  });
+
+  it('clamps coordinates outside 0..1 onto the board edge', () => {
+    const points = prepareStrokePoints([{ x: -0.5, y: 0.25 }, { x: 1.7, y: -3 }]);
+    expect(points).toEqual([{ x: 0, y: points[0].y }, { x: 1, y: 0 }]);
+    expect(points[0].y).toBeCloseTo(0.25, 4);
+  });
+});
+
+describe('encodeStroke / decodeStroke', () => {
+  it('round-trips a prepared stroke exactly', () => {
+    const sent = message({ points: prepareStrokePoints(drawnSeven()), width: 12 });
+    expect(decodeStroke(encodeStroke(sent))).toEqual(sent);
+  });
+
+  it('keeps a raw stroke within MAX_STROKE_ERROR', () => {
+    const drawn = drawnSeven();
+    const decoded = decodeStroke(encodeStroke(message({ points: drawn })));
+    expect(decoded.stroke.points).toHaveLength(drawn.length);
+    decoded.stroke.points.forEach((p, i) => {
+      expect(Math.hypot(p.x - drawn[i].x, p.y - drawn[i].y)).toBeLessThanOrEqual(MAX_STROKE_ERROR);
+    });
+  });
+
+  it('round-trips an empty stroke', () => {
+    const sent = message({ points: [] });
+    expect(decodeStroke(encodeStroke(sent))).toEqual(sent);
+  });
+
+  it('clamps coordinates outside 0..1 onto the board edge', () => {
+    const decoded = decodeStroke(encodeStroke(message({ points: [{ x: -0.2, y: 1.5 }, { x: 2, y: 0.25 }] })));
+    expect(decoded.stroke.points[0]).toEqual({ x: 0, y: 1 });
+    expect(decoded.stroke.points[1].x).toBe(1);
+    expect(decoded.stroke.points[1].y).toBeCloseTo(0.25, 4);
+  });
+
+  it('preserves ttl and createdAt of fading strokes', () => {
+    const createdAt = 1_790_000_000_123; // Above 2^31, like any Date.now()
+    const sent = message({ points: prepareStrokePoints(drawnSeven()), createdAt, ttl: 10000 });
+    const decoded = decodeStroke(encodeStroke(sent));
+    expect(decoded.stroke.createdAt).toBe(createdAt);
+    expect(decoded.stroke.ttl).toBe(10000);
+  });
+
+  it('leaves ttl and createdAt out of lasting strokes', () => {
+    const decoded = decodeStroke(encodeStroke(message({ points: [{ x: 0.1, y: 0.1 }] })));
+    expect(decoded.stroke).not.toHaveProperty('ttl');
+    expect(decoded.stroke).not.toHaveProperty('createdAt');
+  });
+
+  it('round-trips the highlighter and stamp flags', () => {
+    const sent = message({ points: prepareStrokePoints([{ x: 0.4, y: 0.4 }, { x: 0.5, y: 0.45 }]), highlighter: true, stamp: 'KOB', width: 24 });
+    expect(decodeStroke(encodeStroke(sent))).toEqual(sent);
+  });
+
+  it('round-trips who drew an imported stroke', () => {
+    const sent = message({ points: prepareStrokePoints([{ x: 0.3, y: 0.6 }]), drawnBy: 'JOINER' });
+    expect(decodeStroke(encodeStroke(sent))).toEqual(sent);
+  });
+
+  it('keeps a multi-byte id and colour intact', () => {
+    const sent = message({ id: 'ضربة-1', color: 'rgb(1, 2, 3)', points: [{ x: 0, y: 1 }] });
+    expect(decodeStroke(encodeStroke(sent))).toEqual(sent);
+  });
+
+  it('rejects truncated and trailing bytes', () => {
+    const bytes = encodeStroke(message({ points: prepareStrokePoints(drawnSeven()) }));
+    expect(() => decodeStroke(bytes.subarray(0, bytes.length - 1))).toThrow(RangeError);
+    expect(() => decodeStroke(Uint8Array.from([...bytes, 0]))).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,219 @@
+import { PeerRole, Point, StampShape, SyncedMessage } from '../types';
+
+// Compact binary encoding of finished strokes.
+//
+// A stroke is first simplified (Ramer-Douglas-Peucker), then its normalized
+// coordinates are quantized to QUANT_BITS and written as zigzag varint deltas
+// from the previous point. A typical digit drops from several KB of JSON to a
+// few dozen bytes.
+//
+// Simplifying and quantizing happen before the stroke enters the op log (see
+// prepareStrokePoints), so the encoding is lossless for what is actually
+// logged and both devices hold identical points.
+//
+// Layout: varint seq, varint lamport, string id, string color, varint flags,
+// [varint createdAt, varint ttl if FLAG_FADING], [varint width if FLAG_WIDTH],
+// [string stamp if FLAG_STAMP], [string drawnBy if FLAG_DRAWN_BY], varint
+// count, then count x (zigzag dx, zigzag dy). Strings are varint length + UTF-8.
+
+type StrokeMessage = Extract<SyncedMessage, { type: 'SYNC_STROKE' }>;
+
+const QUANT_BITS = 14;
+const QUANT_MAX = (1 << QUANT_BITS) - 1;
+
+// Max distance (normalized units) a simplified path may stray from the drawn
+// one: about half a pixel on a phone-sized board
+export const SIMPLIFY_TOLERANCE = 0.0015;
+
+/** Worst-case distance between a drawn point and its logged counterpart. */
+export const MAX_STROKE_ERROR = SIMPLIFY_TOLERANCE + Math.SQRT2 / 2 / QUANT_MAX;
+
+const FLAG_FADING = 1;
+const FLAG_WIDTH = 2;
+const FLAG_HIGHLIGHTER = 4;
+const FLAG_STAMP = 8;
+const FLAG_DRAWN_BY = 16;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// --- Simplification ---
+
+const segmentDistance = (p: Point, a: Point, b: Point): number => {
+  const dx = b.x - a.x, dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+/** Ramer-Douglas-Peucker, iterative so a very long scribble cannot overflow the stack. */
+export const simplifyPath = (points: Point[], tolerance: number): Point[] => {
+  if (points.length <= 2) return points;
+
+  const keep = new Uint8Array(points.length);
+  keep[0] = keep[points.length - 1] = 1;
+  const ranges: [number, number][] = [[0, points.length - 1]];
+
+  while (ranges.length > 0) {
+    const [first, last] = ranges.pop()!;
+    let maxDistance = 0;
+    let index = -1;
+    for (let i = first + 1; i < last; i++) {
+      const d = segmentDistance(points[i], points[first], points[last]);
+      if (d > maxDistance) {
+        maxDistance = d;
+        index = i;
+      }
+    }
+    if (index >= 0 && maxDistance > tolerance) {
+      keep[index] = 1;
+      ranges.push([first, index], [index, last]);
+    }
+  }
+  return points.filter((_, i) => keep[i]);
+};
+
+// --- Quantization ---
+
+// Off-board coordinates are clamped onto the board's edge. The board never
+// produces them (it clamps its input); they can only come from a bad peer or file
+const quantize = (v: number): number => Math.round(Math.max(0, Math.min(1, v)) * QUANT_MAX);
+const dequantize = (q: number): number => q / QUANT_MAX;
+
+/** The points a new stroke is logged and sent with: simplified, on the board and on the quantization grid. */
+export const prepareStrokePoints = (points: Point[]): Point[] => {
+  const simplified = simplifyPath(points, SIMPLIFY_TOLERANCE);
+  const out: Point[] = [];
+  simplified.forEach(p => {
+    const q = { x: dequantize(quantize(p.x)), y: dequantize(quantize(p.y)) };
+    const prev = out[out.length - 1];
+    if (!prev || prev.x !== q.x || prev.y !== q.y) out.push(q);
+  });
+  return out;
+};
+
+// --- Byte I/O ---
+
+const createWriter = () => {
+  const bytes: number[] = [];
+
+  // Unsigned LEB128; arithmetic rather than bit ops so values above 2^31 survive
+  const varint = (n: number) => {
+    let v = Math.floor(n);
+    while (v >= 0x80) {
+      bytes.push((v % 0x80) | 0x80);
+      v = Math.floor(v / 0x80);
+    }
+    bytes.push(v);
+  };
+
+  return {
+    varint,
+    signed: (n: number) => varint(n >= 0 ? n * 2 : -n * 2 - 1),
+    string: (s: string) => {
+      const utf8 = encoder.encode(s);
+      varint(utf8.length);
+      utf8.forEach(b => bytes.push(b));
+    },
+    result: () => Uint8Array.from(bytes),
+  };
+};
+
+const createReader = (bytes: Uint8Array) => {
+  let offset = 0;
+
+  const byte = (): number => {
+    if (offset >= bytes.length) throw new RangeError('Truncated stroke');
+    return bytes[offset++];
+  };
+
+  const varint = (): number => {
+    let result = 0;
+    let scale = 1;
+    for (let i = 0; i < 8; i++) {
+      const b = byte();
+      result += (b & 0x7f) * scale;
+      if (b < 0x80) return result;
+      scale *= 0x80;
+    }
+    throw new RangeError('Varint too long');
+  };
+
+  return {
+    varint,
+    signed: (): number => {
+      const v = varint();
+      return v % 2 === 0 ? v / 2 : -(v + 1) / 2;
+    },
+    string: (): string => {
+      const length = varint();
+      if (offset + length > bytes.length) throw new RangeError('Truncated stroke');
+      const s = decoder.decode(bytes.subarray(offset, offset + length));
+      offset += length;
+      return s;
+    },
+    done: () => offset === bytes.length,
+  };
+};
+
+// --- Codec ---
+
+export const encodeStroke = (message: StrokeMessage): Uint8Array => {
+  const w = createWriter();
+  w.varint(message.seq);
+  w.varint(message.lamport);
+  w.string(message.stroke.id);
+  w.string(message.stroke.color);
+  const { createdAt, ttl, width, highlighter, stamp, drawnBy } = message.stroke;
+  const fading = createdAt !== undefined && ttl !== undefined;
+  w.varint(
+    (fading ? FLAG_FADING : 0) |
+    (width !== undefined ? FLAG_WIDTH : 0) |
+    (highlighter ? FLAG_HIGHLIGHTER : 0) |
+    (stamp ? FLAG_STAMP : 0) |
+    (drawnBy ? FLAG_DRAWN_BY : 0)
+  );
+  if (fading) {
+    w.varint(createdAt);
+    w.varint(ttl);
+  }
+  if (width !== undefined) w.varint(width);
+  if (stamp) w.string(stamp);
+  if (drawnBy) w.string(drawnBy);
+  w.varint(message.stroke.points.length);
+  let px = 0, py = 0;
+  message.stroke.points.forEach(p => {
+    const x = quantize(p.x), y = quantize(p.y);
+    w.signed(x - px);
+    w.signed(y - py);
+    px = x;
+    py = y;
+  });
+  return w.result();
+};
+
+/** Inverse of encodeStroke. Throws on truncated or trailing bytes. */
+export const decodeStroke = (bytes: Uint8Array): StrokeMessage => {
+  const r = createReader(bytes);
+  const seq = r.varint();
+  const lamport = r.varint();
+  const id = r.string();
+  const color = r.string();
+  const flags = r.varint();
+  const fading = (flags & FLAG_FADING) !== 0 ? { createdAt: r.varint(), ttl: r.varint() } : {};
+  const width = (flags & FLAG_WIDTH) !== 0 ? { width: r.varint() } : {};
+  const highlighter = (flags & FLAG_HIGHLIGHTER) !== 0 ? { highlighter: true } : {};
+  const stamp = (flags & FLAG_STAMP) !== 0 ? { stamp: r.string() as StampShape } : {}; // Checked by the SYNC_STROKE validator
+  const drawnBy = (flags & FLAG_DRAWN_BY) !== 0 ? { drawnBy: r.string() as PeerRole } : {}; // Likewise
+  const count = r.varint();
+  if (count > bytes.length) throw new RangeError('Bad point count'); // Each point takes 2+ bytes
+  const points: Point[] = [];
+  let x = 0, y = 0;
+  for (let i = 0; i < count; i++) {
+    x += r.signed();
+    y += r.signed();
+    points.push({ x: dequantize(x), y: dequantize(y) });
+  }
+  if (!r.done()) throw new RangeError('Trailing bytes after stroke');
+  return { type: 'SYNC_STROKE', seq, lamport, stroke: { id, color, points, isRemote: false, ...fading, ...width, ...highlighter, ...stamp, ...drawnBy } };
+};
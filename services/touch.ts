@@ -0,0 +1,12 @@
+// Telling a deliberate finger from a hand resting on the screen. Shared by
+// the drawing board and the two-finger panic gesture, so a palm that cannot
+// draw cannot hide the game either.
+
+// Touches wider than this (px) are a palm or the side of a hand
+export const PALM_CONTACT_PX = 40;
+// After a stylus lifts, touches are still taken for the hand resting on the screen
+export const PEN_GRACE_MS = 500;
+
+/** Whether a touch of this contact size (px) is a palm, given when the stylus was last seen (performance.now()). */
+export const isPalmContact = (width: number, height: number, lastPenAt: number, now = performance.now()): boolean =>
+  width > PALM_CONTACT_PX || height > PALM_CONTACT_PX || now - lastPenAt < PEN_GRACE_MS;
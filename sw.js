@@ -7,13 +7,58 @@ const ASSETS_TO_CACHE = [
   './types.ts',
   './constants.tsx',
   './components/DrawingBoard.tsx',
+  './components/RankBadge.tsx',
+  './components/HandwritingTrainer.tsx',
+  './components/DecoyCalculator.tsx',
+  './components/PanicSettingsPanel.tsx',
+  './components/QrCode.tsx',
+  './components/Scoreboard.tsx',
+  './components/PairingCodeInput.tsx',
   './components/Card.tsx',
+  './components/CardTracker.tsx',
+  './components/QuickSignalPalette.tsx',
+  './components/QuickSignalSettings.tsx',
+  './components/SignalLog.tsx',
+  './components/SignalBanner.tsx',
+  './components/HapticPulse.tsx',
+  './components/HapticSettingsPanel.tsx',
+  './components/HapticPractice.tsx',
+  './components/BrushPalette.tsx',
+  './components/ReplayViewer.tsx',
+  './components/RecordingsPanel.tsx',
+  './components/BoardFilePanel.tsx',
+  './services/protocol.ts',
+  './services/crypto.ts',
+  './services/p256.ts',
+  './services/signaling.ts',
+  './services/connection.ts',
+  './services/oplog.ts',
+  './services/geometry.ts',
+  './services/strokeCodec.ts',
+  './services/recognizer.ts',
+  './services/fadingInk.ts',
+  './services/panic.ts',
+  './services/sdpCodec.ts',
+  './services/qr.ts',
+  './services/roomCode.ts',
+  './services/score.ts',
+  './services/cardCount.ts',
+  './services/rules.ts',
+  './services/quickSignals.ts',
+  './services/haptics.ts',
+  './services/brush.ts',
+  './services/recorder.ts',
+  './services/files.ts',
+  './services/boardFile.ts',
+  './services/touch.ts',
   'https://cdn.tailwindcss.com',
   // Cache the ESM modules (this is a basic strategy, production apps bundle these)
   'https://esm.sh/react@^19.2.4',
   'https://esm.sh/react-dom@^19.2.4/',
   'https://esm.sh/lucide-react@^0.563.0',
-  'https://esm.sh/lz-string@1.5.0'
+  'https://esm.sh/lz-string@1.5.0',
+  'https://esm.sh/jsqr@1.4.0',
+  'https://esm.sh/qrcode-generator@2.0.4'
 ];
 
 self.addEventListener('install', (event) => {
@@ -1,5 +1,9 @@
 export type PlayerRole = 'ME' | 'PARTNER';
 
+// Which side of the pairing a device is. Stable for a session, so it also
+// identifies the author of shared-state operations.
+export type PeerRole = 'HOST' | 'JOINER';
+
 export type Suit = 'DINARI' | 'BSTONI' | 'KOB' | 'SBATI';
 
 export interface CardData {
@@ -14,14 +18,151 @@ export interface Point {
   y: number; // Normalized 0-1
 }
 
+// Marks placed in one go rather than drawn, e.g. circling a card on the table
+export type StampShape = 'CIRCLE' | 'CROSS' | 'ARROW' | Suit;
+
 export interface Stroke {
   id: string;
   points: Point[];
   color: string;
   isRemote: boolean;
+  width?: number;        // Line width in board units, 6 when missing
+  highlighter?: boolean; // Translucent, drawn under the ink
+  stamp?: StampShape;    // Points are [anchor, drag end] instead of a path
+  drawnBy?: PeerRole;    // Imported strokes: who drew it, when not whoever imported it
+  // Fading ink: gone `ttl` ms after `createdAt` (Date.now() on the drawer's device)
+  createdAt?: number;
+  ttl?: number;
+}
+
+// The parts of a stroke set by the tool palette rather than the finger
+export type StrokeStyle = Pick<Stroke, 'color' | 'width' | 'highlighter' | 'stamp'>;
+
+export type DrawingTool = 'PEN' | 'HIGHLIGHTER' | 'STAMP' | 'ERASER';
+
+// Where a card went during the current deal. PLAYED: on the table, not
+// captured yet. OURS/THEIRS: in a team's capture pile. HAND: held by whoever
+// marked it.
+export type CardFate = 'PLAYED' | 'OURS' | 'THEIRS' | 'HAND';
+
+// Per-card state of the shared tracker grid
+export interface CardMarks {
+  selectedByMe: boolean;
+  selectedByPartner: boolean;
+  crossed: boolean;
+  circled: boolean;
+  fate: CardFate | null;
+  heldByMe: boolean; // For HAND: my hand rather than the partner's
+}
+
+// Both partners play on the same team, so a team reads the same on both phones
+export type Team = 'US' | 'THEM';
+
+// One round of the scorekeeper, entered once at the end of the deal. Counts are
+// of our team's pile; theirs are the rest of the deck.
+export interface RoundTally {
+  id: string;
+  at: number;      // When first entered, orders the history
+  cards: number;   // 0-40
+  dinari: number;  // 0-10
+  sevens: number;  // 0-4
+  sixes: number;   // 0-4
+  haya: Team;      // Who took the 7 of Dinari
+  chkobbas: Record<Team, number>;
+}
+
+export interface ScoreState {
+  target: number; // Points that win the match
+  rounds: RoundTally[];
+}
+
+// Ordering stamp on every message that changes shared state: `seq` counts the
+// sender's own operations, `lamport` orders them against the partner's.
+export interface OpStamp {
+  seq: number;
+  lamport: number;
+}
+
+export type SyncedMessage =
+  | ({ type: 'SYNC_STROKE'; stroke: Stroke } & OpStamp)
+  | ({ type: 'STROKE_REMOVE'; strokeId: string } & OpStamp)  // Undo of a drawn stroke, or the eraser
+  | ({ type: 'STROKE_RESTORE'; strokeId: string } & OpStamp) // Redo, or undo of an erase
+  | ({ type: 'CLEAR_BOARD' } & OpStamp)
+  | ({ type: 'RESET' } & OpStamp)
+  | ({ type: 'CARD_SELECT'; cardId: string; value: boolean } & OpStamp) // value: explicit new state so both grids converge
+  | ({ type: 'CARD_CROSS'; cardId: string; value: boolean } & OpStamp)
+  | ({ type: 'CARD_CIRCLE'; cardId: string; value: boolean } & OpStamp)
+  | ({ type: 'CARD_FATE'; cardId: string; fate: CardFate | null } & OpStamp)
+  | ({ type: 'HANDS_DEALT'; value: number } & OpStamp) // Hands dealt so far in this deal
+  | ({ type: 'SCORE_ROUND'; round: RoundTally } & OpStamp) // Adds a round, or replaces the one with the same id
+  | ({ type: 'SCORE_REMOVE'; roundId: string } & OpStamp)
+  | ({ type: 'SCORE_TARGET'; target: number } & OpStamp)
+  | ({ type: 'SCORE_RESET' } & OpStamp); // New match
+
+export interface Op {
+  author: PeerRole;
+  message: SyncedMessage;
+}
+
+// Highest contiguous `seq` known from each author
+export type VersionVector = Record<PeerRole, number>;
+
+// Shared tracker state of one card, independent of who is looking at it
+export interface SharedCardMarks {
+  selectedBy: Partial<Record<PeerRole, boolean>>;
+  crossed: boolean;
+  circled: boolean;
+  fate?: CardFate;
+  holder?: PeerRole; // Who marked it HAND
+}
+
+export interface AuthoredStroke {
+  author: PeerRole;
+  stroke: Stroke;
+  removed?: boolean; // Undone or erased, kept so it can be restored
+}
+
+export interface BoardState {
+  strokes: AuthoredStroke[];
+  cards: Record<string, SharedCardMarks>;
+  handsDealt: number; // Reset to 1 with the cards on a new deal
+  score: ScoreState;
+}
+
+export interface BoardSnapshot {
+  state: BoardState;
+  vector: VersionVector;
+  lamport: number;
+}
+
+// A canned message from the quick-signal palette. Sent whole, so the
+// receiver flashes and vibrates the way the sender configured it.
+export interface QuickSignal {
+  id: string;
+  label: string;
+  color: string;       // #rrggbb
+  vibration: number[]; // navigator.vibrate pattern
 }
 
-export interface SignalMessage {
-  type: 'SYNC_STROKE' | 'CLEAR_BOARD' | 'RESET' | 'PING';
-  stroke?: Stroke;
-}
\ No newline at end of file
+// Data channel protocol. Every message on the "chkobba" channel is one of
+// these; see services/protocol.ts for the version and runtime validation.
+export type SignalMessage =
+  | { type: 'HELLO'; version: number; minVersion: number }
+  | { type: 'HEARTBEAT'; sentAt: number } // Sender's Date.now(), to estimate the clock offset
+  | { type: 'PING' }
+  | { type: 'CARD_SIGNAL'; cardId: string }
+  | { type: 'QUICK_SIGNAL'; signal: QuickSignal }
+  // A stroke still being drawn: `points` continue the stroke from index `start`.
+  // Not part of the op log; SYNC_STROKE with the same id replaces it.
+  | { type: 'STROKE_PARTIAL'; strokeId: string; color: string; width?: number; highlighter?: boolean; start: number; points: Point[] }
+  | { type: 'STROKE_CANCEL'; strokeId: string }
+  | { type: 'PANIC' } // Hide everything behind the decoy screen now
+  | { type: 'RANK_BADGE'; rank: number } // A rank recognized in the sender's handwriting
+  | SyncedMessage
+  | { type: 'SYNC_REQUEST'; vector: VersionVector }           // "Send me what I'm missing"
+  // A partner behind our compacted base gets it first, compressed and cut into parts
+  | { type: 'SYNC_SNAPSHOT'; part: number; parts: number; data: string }
+  | { type: 'SYNC_OPS'; ops: Op[] } // The reply, possibly in several parts
+  | { type: 'SEALED'; iv: string; ct: string }; // AES-GCM envelope around another message
+
+export type SignalMessageType = SignalMessage['type'];